@@ -1,5 +1,7 @@
 import { defineConfig } from "astro/config";
 import tailwind from "@astrojs/tailwind";
+import openingHoursCheck from "./src/integrations/opening-hours-check.ts";
+import groupSizeCheck from "./src/integrations/group-size-check.ts";
 // Configuration pour GitHub Pages
 const GITHUB_ORG = "Wuilhome";
 const REPO_NAME = "lajardinerie_website";
@@ -7,7 +9,7 @@ const REPO_NAME = "lajardinerie_website";
 export default defineConfig({
   site: `https://${GITHUB_ORG}.github.io/${REPO_NAME}`,
   base: `/${REPO_NAME}`,
-  integrations: [tailwind()],
+  integrations: [tailwind(), openingHoursCheck(), groupSizeCheck()],
   build: {
     assets: "assets"
   },
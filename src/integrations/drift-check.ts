@@ -0,0 +1,89 @@
+/**
+ * Build-time drift check between the site and the database
+ *
+ * Some values are built into the site while the database holds the ones in
+ * force (opening hours, online booking limit). A check compares them with:
+ * - the seed in supabase/schema.sql (always): any difference fails the build,
+ *   both are edited in the same change
+ * - the live table, when PUBLIC_SUPABASE_URL is set: any difference fails the
+ *   build too, so the site never shows values the database no longer uses.
+ *   ALLOW_DATABASE_DRIFT=true turns these failures into warnings, to deploy
+ *   anyway after staff changed a value from the admin (a table that cannot be
+ *   read is only a warning: there is nothing to compare)
+ */
+
+import { readFileSync } from "node:fs";
+import type { AstroIntegration } from "astro";
+import { loadEnv } from "vite";
+
+export interface DriftCheck<T> {
+  name: string; // integration name
+  subject: string; // what drifts, e.g. "Opening hours"
+  table: string;
+  query: string; // PostgREST filters and select on the table
+  checkSource: (schema: string) => string[]; // differences, given the content of supabase/schema.sql
+  checkDatabase: (rows: T[]) => string[];
+  sourceFix: string; // what to update when the schema differs
+  databaseFix: string; // what to update when the live table differs
+}
+
+// Set to "true" (environment or .env) to deploy with a live table that differs
+const ALLOW_DRIFT_VARIABLE = "ALLOW_DATABASE_DRIFT";
+
+async function fetchRows<T>(url: string, anonKey: string, table: string, query: string): Promise<T[]> {
+  const response = await fetch(`${url}/rest/v1/${table}?${query}`, {
+    headers: { apikey: anonKey, Authorization: `Bearer ${anonKey}` }
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+}
+
+export function driftCheck<T>(check: DriftCheck<T>): AstroIntegration {
+  let root: URL;
+
+  return {
+    name: check.name,
+    hooks: {
+      "astro:config:done": ({ config }) => {
+        root = config.root;
+      },
+      "astro:build:start": async ({ logger }) => {
+        const errors = check.checkSource(readFileSync(new URL("supabase/schema.sql", root), "utf8"));
+        if (errors.length > 0) {
+          throw new Error(`${check.subject} drift, ${check.sourceFix}:\n  ${errors.join("\n  ")}`);
+        }
+
+        const env = loadEnv("production", root.pathname, ["PUBLIC_", ALLOW_DRIFT_VARIABLE]);
+        if (!env.PUBLIC_SUPABASE_URL) {
+          logger.info(`${check.subject} match supabase/schema.sql`);
+          return;
+        }
+
+        let differences: string[];
+        try {
+          const rows = await fetchRows<T>(
+            env.PUBLIC_SUPABASE_URL,
+            env.PUBLIC_SUPABASE_ANON_KEY || "",
+            check.table,
+            check.query
+          );
+          differences = check.checkDatabase(rows);
+        } catch (error) {
+          logger.warn(`Could not read ${check.table}, skipping the database check: ${error}`);
+          return;
+        }
+
+        if (differences.length > 0) {
+          const message = `${check.subject} differ from the ${check.table} table, ${check.databaseFix}:\n  ${differences.join("\n  ")}`;
+          if (env[ALLOW_DRIFT_VARIABLE] !== "true") {
+            throw new Error(`${message}\nSet ${ALLOW_DRIFT_VARIABLE}=true to deploy anyway`);
+          }
+          logger.warn(`${message} (allowed by ${ALLOW_DRIFT_VARIABLE})`);
+          return;
+        }
+
+        logger.info(`${check.subject} match the ${check.table} table`);
+      }
+    }
+  };
+}
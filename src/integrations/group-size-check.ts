@@ -0,0 +1,34 @@
+/**
+ * Build-time check that the online booking limit matches max_group_size
+ *
+ * The texts of the site ("up to 12 guests") are built with
+ * DEFAULT_MAX_GROUP_SIZE (supabase/functions/_shared/group-size.ts); the
+ * guest pickers read the setting from /availability when they load. Compares
+ * the constant with the settings seed in supabase/schema.sql and the live
+ * settings table (drift-check.ts: the build fails on either, unless
+ * ALLOW_DATABASE_DRIFT is set for the database).
+ */
+
+import type { AstroIntegration } from "astro";
+import { DEFAULT_MAX_GROUP_SIZE } from "../../supabase/functions/_shared/group-size.ts";
+import { driftCheck } from "./drift-check";
+
+function diffValue(source: string, value: string | null): string[] {
+  return value === String(DEFAULT_MAX_GROUP_SIZE)
+    ? []
+    : [`max_group_size is ${value ?? "missing"} in ${source}, ${DEFAULT_MAX_GROUP_SIZE} on the site`];
+}
+
+export default function groupSizeCheck(): AstroIntegration {
+  return driftCheck<{ value: unknown }>({
+    name: "group-size-check",
+    subject: "Online booking limits",
+    table: "settings",
+    query: "key=eq.max_group_size&select=value",
+    checkSource: (schema) =>
+      diffValue("supabase/schema.sql", schema.match(/\('max_group_size', '(\d+)'\)/)?.[1] ?? null),
+    checkDatabase: (rows) => diffValue("the settings table", rows.length > 0 ? String(rows[0].value) : null),
+    sourceFix: "update DEFAULT_MAX_GROUP_SIZE or the max_group_size seed",
+    databaseFix: "update DEFAULT_MAX_GROUP_SIZE for the texts of the site"
+  });
+}
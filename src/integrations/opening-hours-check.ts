@@ -0,0 +1,82 @@
+/**
+ * Build-time check that the opening hours module matches service_windows
+ *
+ * Compares `serviceWindows` from src/lib/opening-hours.ts with the seed rows
+ * in supabase/schema.sql and the live service_windows table (drift-check.ts:
+ * the build fails on either, unless ALLOW_DATABASE_DRIFT is set for the
+ * database). Also fails the build when a service is outside the venue hours
+ * shown to guests.
+ */
+
+import type { AstroIntegration } from "astro";
+import { getServiceWindowRows, venueHours } from "../lib/opening-hours";
+import { driftCheck } from "./drift-check";
+
+type Row = ReturnType<typeof getServiceWindowRows>[number];
+
+const rowKey = (row: Row) =>
+  [
+    row.name,
+    row.display_name,
+    row.dow,
+    row.start_time.slice(0, 5),
+    row.end_time.slice(0, 5),
+    row.last_reservation_time.slice(0, 5),
+    row.capacity,
+    row.slot_interval,
+    row.meal_duration
+  ].join(" | ");
+
+function parseSchemaRows(schema: string): Row[] {
+  const insert = schema.match(/INSERT INTO service_windows[\s\S]*?;/);
+  if (!insert) return [];
+
+  const tuple = /\('(\w+)', '([^']*)', (\d), '([\d:]+)', '([\d:]+)', '([\d:]+)', (\d+), (\d+), (\d+)\)/g;
+  return [...insert[0].matchAll(tuple)].map((m) => ({
+    name: m[1] as Row["name"],
+    display_name: m[2],
+    dow: Number(m[3]),
+    start_time: m[4],
+    end_time: m[5],
+    last_reservation_time: m[6],
+    capacity: Number(m[7]),
+    slot_interval: Number(m[8]),
+    meal_duration: Number(m[9])
+  }));
+}
+
+function diffRows(source: string, actual: Row[]): string[] {
+  const expected = new Set(getServiceWindowRows().map(rowKey));
+  const found = new Set(actual.map(rowKey));
+
+  return [
+    ...[...expected].filter((key) => !found.has(key)).map((key) => `missing from ${source}: ${key}`),
+    ...[...found].filter((key) => !expected.has(key)).map((key) => `only in ${source}: ${key}`)
+  ];
+}
+
+// Every service must run while the venue is open ("00:00" closes at midnight)
+function checkVenueHours(): string[] {
+  return getServiceWindowRows().flatMap((row) => {
+    const hours = venueHours.find((h) => h.days.includes(row.dow));
+    const closes = hours?.closes === "00:00" ? "24:00" : hours?.closes;
+    if (!hours || row.start_time < hours.opens || row.end_time > closes!) {
+      return [`service ${row.name} on day ${row.dow} is outside venueHours`];
+    }
+    return [];
+  });
+}
+
+export default function openingHoursCheck(): AstroIntegration {
+  return driftCheck<Row>({
+    name: "opening-hours-check",
+    subject: "Opening hours",
+    table: "service_windows",
+    query:
+      "is_active=eq.true&select=name,display_name,dow,start_time,end_time,last_reservation_time,capacity,slot_interval,meal_duration",
+    checkSource: (schema) => [...checkVenueHours(), ...diffRows("supabase/schema.sql", parseSchemaRows(schema))],
+    checkDatabase: (rows) => diffRows("the service_windows table", rows),
+    sourceFix: "update src/lib/opening-hours.ts or supabase/schema.sql",
+    databaseFix: "update src/lib/opening-hours.ts"
+  });
+}
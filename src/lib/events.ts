@@ -0,0 +1,230 @@
+/**
+ * Events - the /evenements agenda
+ *
+ * At build time the published rows of the events table are read through the
+ * REST API (PUBLIC_SUPABASE_URL). Without Supabase the site shows `demoEvents`.
+ * Events move to the archive once they have started; the daily rebuild
+ * (.github/workflows/deploy.yml) and the pages' client script keep that
+ * current between two deploys.
+ */
+
+import { DEFAULT_TIMEZONE, addDays, zonedTimeToUtc } from "../../supabase/functions/_shared/timezone.ts";
+import { formatHour } from "./opening-hours";
+
+export interface SiteEvent {
+  id: string | null; // null for demo events, which cannot be booked
+  slug: string;
+  title: string;
+  description: string;
+  date: string; // YYYY-MM-DD
+  start_time: string; // HH:MM, restaurant timezone
+  end_time: string; // before start_time when the event ends after midnight
+  capacity: number;
+  price_per_person: number | null; // null = free entry
+  set_menu: string | null;
+  badge: string | null;
+  image: string | null;
+}
+
+// Number of past events kept on the agenda page
+export const ARCHIVED_EVENTS_SHOWN = 4;
+
+export const demoEvents: SiteEvent[] = [
+  {
+    id: null,
+    slug: "saint-valentin-dj-tapas-2026",
+    title: "Soirée DJ & Tapas — Saint-Valentin",
+    description: "Célébrez l'amour à la guinguette ! DJ set, carte spéciale tapas à partager et cocktails signatures. Réservation conseillée.",
+    date: "2026-02-14",
+    start_time: "20:00",
+    end_time: "00:00",
+    capacity: 60,
+    price_per_person: 35,
+    set_menu: "Planche de tapas à partager\nCocktail signature\nDessert à deux",
+    badge: "Saint-Valentin",
+    image: "assets/verres-vin.webp"
+  },
+  {
+    id: null,
+    slug: "concert-acoustique-2026-02",
+    title: "Concert Acoustique",
+    description: "Soirée musique live avec un duo guitare-voix. Répertoire varié, ambiance intimiste et plats gourmands.",
+    date: "2026-02-21",
+    start_time: "20:30",
+    end_time: "23:00",
+    capacity: 80,
+    price_per_person: null,
+    set_menu: null,
+    badge: null,
+    image: "assets/plats-service.webp"
+  },
+  {
+    id: null,
+    slug: "soiree-vins-naturels-2026",
+    title: "Soirée Vins Naturels",
+    description: "Dégustation commentée de vins naturels de la région, accompagnée d'une sélection de fromages et charcuteries.",
+    date: "2026-02-28",
+    start_time: "19:00",
+    end_time: "22:30",
+    capacity: 40,
+    price_per_person: 29,
+    set_menu: "5 vins naturels du Roussillon\nFromages et charcuteries de la région",
+    badge: "Dégustation",
+    image: "assets/service-soir.webp"
+  },
+  {
+    id: null,
+    slug: "funky-friday-2026-03",
+    title: "DJ Set — Funky Friday",
+    description: "Groove, funk et bonne humeur pour finir la semaine en beauté. Entrée libre, dancefloor ouvert !",
+    date: "2026-03-07",
+    start_time: "21:00",
+    end_time: "00:00",
+    capacity: 100,
+    price_per_person: null,
+    set_menu: null,
+    badge: null,
+    image: "assets/la-bringue.webp"
+  },
+  {
+    id: null,
+    slug: "nouvel-an-2026",
+    title: "Nouvel An 2026",
+    description: "Une soirée mémorable avec DJ, menu festif et countdown sous les étoiles.",
+    date: "2025-12-31",
+    start_time: "20:00",
+    end_time: "02:00",
+    capacity: 100,
+    price_per_person: 79,
+    set_menu: null,
+    badge: null,
+    image: null
+  },
+  {
+    id: null,
+    slug: "beaujolais-nouveau-2025",
+    title: "Beaujolais Nouveau",
+    description: "Dégustation du millésime 2025 dans une ambiance conviviale.",
+    date: "2025-11-21",
+    start_time: "19:00",
+    end_time: "23:00",
+    capacity: 100,
+    price_per_person: null,
+    set_menu: null,
+    badge: null,
+    image: null
+  }
+];
+
+/**
+ * Published events, ordered by date. Throws when Supabase is configured but
+ * unreachable, so a failed read never publishes an empty agenda.
+ */
+export async function getEvents(): Promise<SiteEvent[]> {
+  const supabaseUrl = import.meta.env.PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = import.meta.env.PUBLIC_SUPABASE_ANON_KEY || "";
+
+  if (!supabaseUrl) {
+    return [...demoEvents].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/events?status=eq.published&select=id,slug,title,description,date,start_time,end_time,capacity,price_per_person,set_menu,badge,image&order=date,start_time`,
+    { headers: { apikey: supabaseAnonKey, Authorization: `Bearer ${supabaseAnonKey}` } }
+  );
+  if (!response.ok) {
+    throw new Error(`Could not read events: HTTP ${response.status}`);
+  }
+
+  const rows: SiteEvent[] = await response.json();
+  return rows.map((row) => ({
+    ...row,
+    start_time: row.start_time.slice(0, 5),
+    end_time: row.end_time.slice(0, 5),
+    // NUMERIC comes back as a string
+    price_per_person: row.price_per_person === null ? null : Number(row.price_per_person)
+  }));
+}
+
+/**
+ * Start and end instants, like get_event_range() in the database
+ */
+export function getEventRange(event: SiteEvent, timeZone = DEFAULT_TIMEZONE): { start: Date; end: Date } {
+  const endDate = event.end_time <= event.start_time ? addDays(event.date, 1) : event.date;
+  return {
+    start: zonedTimeToUtc(event.date, event.start_time, timeZone),
+    end: zonedTimeToUtc(endDate, event.end_time, timeZone)
+  };
+}
+
+/**
+ * Upcoming events (not started yet, soonest first) and past ones (latest first)
+ */
+export function splitEvents(events: SiteEvent[], now = new Date()): { upcoming: SiteEvent[]; past: SiteEvent[] } {
+  const upcoming = events.filter((event) => getEventRange(event).start > now);
+  const past = events.filter((event) => getEventRange(event).start <= now).reverse();
+  return { upcoming, past };
+}
+
+/**
+ * "20h - 00h", "19h - 22h30"
+ */
+export function formatEventTime(event: SiteEvent): string {
+  return `${formatHour(event.start_time)} - ${formatHour(event.end_time)}`;
+}
+
+/**
+ * "35 € / pers.", "29,50 € / pers." or "Entrée libre"
+ */
+export function formatEventPrice(event: SiteEvent): string {
+  if (event.price_per_person === null) return "Entrée libre";
+  const price = event.price_per_person.toLocaleString("fr-FR", {
+    minimumFractionDigits: Number.isInteger(event.price_per_person) ? 0 : 2
+  });
+  return `${price} € / pers.`;
+}
+
+/**
+ * schema.org Event for the agenda ItemList and the event page
+ */
+export function getEventSchema(event: SiteEvent, pageUrl: string, imageBaseUrl: string) {
+  const { start, end } = getEventRange(event);
+
+  return {
+    "@type": "Event",
+    "name": event.title,
+    "description": event.description,
+    "startDate": start.toISOString(),
+    "endDate": end.toISOString(),
+    "eventStatus": "https://schema.org/EventScheduled",
+    "eventAttendanceMode": "https://schema.org/OfflineEventAttendanceMode",
+    "url": pageUrl,
+    ...(event.image ? { "image": `${imageBaseUrl}/${event.image}` } : {}),
+    "location": {
+      "@type": "Place",
+      "name": "La Jardinerie",
+      "address": {
+        "@type": "PostalAddress",
+        "streetAddress": "9 bis Boulevard de Clairfont",
+        "addressLocality": "Toulouges",
+        "postalCode": "66350",
+        "addressCountry": "FR"
+      }
+    },
+    ...(event.price_per_person === null
+      ? { "isAccessibleForFree": true }
+      : {
+          "offers": {
+            "@type": "Offer",
+            "price": event.price_per_person.toFixed(2),
+            "priceCurrency": "EUR",
+            "url": pageUrl,
+            "validThrough": start.toISOString()
+          }
+        }),
+    "organizer": {
+      "@type": "Organization",
+      "name": "La Jardinerie"
+    }
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Online booking limit in the browser
+ *
+ * Guest pickers are built with DEFAULT_MAX_GROUP_SIZE, then set to the
+ * max_group_size setting read from /availability when the page loads, so a
+ * change of the setting applies without a rebuild. Demo mode and a failed
+ * request keep the built limit.
+ *
+ * For client scripts only (reads PUBLIC_SUPABASE_URL at runtime).
+ */
+
+import { DEFAULT_MAX_GROUP_SIZE, parseMaxGroupSize } from "../../supabase/functions/_shared/group-size.ts";
+
+let maxGroupSize: Promise<number> | null = null;
+
+/**
+ * max_group_size in force, fetched once per page
+ */
+export function getMaxGroupSize(): Promise<number> {
+  maxGroupSize ??= (async () => {
+    const supabaseUrl = (import.meta as any).env?.PUBLIC_SUPABASE_URL;
+    if (!supabaseUrl) return DEFAULT_MAX_GROUP_SIZE;
+
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/availability`, {
+        headers: {
+          Authorization: `Bearer ${(import.meta as any).env?.PUBLIC_SUPABASE_ANON_KEY || ""}`,
+          "Content-Type": "application/json"
+        }
+      });
+      if (!response.ok) return DEFAULT_MAX_GROUP_SIZE;
+      const result = await response.json();
+      return parseMaxGroupSize(result.max_group_size);
+    } catch {
+      return DEFAULT_MAX_GROUP_SIZE;
+    }
+  })();
+  return maxGroupSize;
+}
+
+/**
+ * Guest options 1 to `max` ("1 personne", "2 personnes"...), after the
+ * placeholder option if any; keeps the choice when it is still allowed
+ */
+export function setGuestOptions(select: HTMLSelectElement, max: number): void {
+  const current = select.value;
+  [...select.options].filter((option) => option.value !== "").forEach((option) => option.remove());
+
+  for (let n = 1; n <= max; n++) {
+    select.add(new Option(`${n} ${n === 1 ? "personne" : "personnes"}`, String(n)));
+  }
+
+  if (Number(current) <= max) select.value = current;
+}
@@ -0,0 +1,235 @@
+/**
+ * Menu - the dishes and drinks of /menu
+ *
+ * At build time the available rows of the menu_items table are read through
+ * the REST API (PUBLIC_SUPABASE_URL). Without Supabase the site shows
+ * `demoMenuItems`, the card seeded by supabase/schema.sql. The page, its
+ * dietary filters and the Menu JSON-LD are all built from these items.
+ *
+ * The day's lunch board (lunch_boards table) changes too often for the build:
+ * LunchBoard.astro reads it in the browser.
+ */
+
+import { ALLERGENS, type Allergen } from "../../supabase/functions/_shared/requirements.ts";
+
+// The 14 EU allergens, shared with the booking requirements
+export { ALLERGENS, type Allergen };
+
+export type MenuSectionKey = "entrees" | "plats" | "bouillon" | "desserts" | "vins" | "boissons";
+
+export const DIETS = {
+  vegetarian: "Végétarien",
+  vegan: "Vegan",
+  gluten_free: "Sans gluten"
+} as const;
+
+export type Diet = keyof typeof DIETS;
+
+// schema.org RestrictedDiet of each tag
+const SCHEMA_DIETS: Record<Diet, string> = {
+  vegetarian: "https://schema.org/VegetarianDiet",
+  vegan: "https://schema.org/VeganDiet",
+  gluten_free: "https://schema.org/GlutenFreeDiet"
+};
+
+export interface MenuItem {
+  id: string | null; // null for the demo card
+  section: MenuSectionKey;
+  name: string;
+  description: string | null;
+  price: number | null; // euros, null = market price
+  services: ("midi" | "soir")[]; // services the dish is served at
+  allergens: Allergen[];
+  diets: Diet[];
+  badge: string | null;
+  position: number; // order within the section
+}
+
+export interface LunchDish {
+  name: string;
+  description: string | null;
+  price: number | null; // null = in the formule only
+}
+
+// Row of the lunch_boards table
+export interface LunchBoard {
+  date: string; // YYYY-MM-DD
+  dishes: LunchDish[];
+  formule_price: number | string | null; // NUMERIC comes back as a string
+  formule_description: string | null;
+  note: string | null;
+}
+
+export interface MenuSectionDefinition {
+  key: MenuSectionKey;
+  title: string;
+  subtitle?: string;
+  drinks?: boolean; // shown together in the drinks block
+}
+
+export interface MenuSection extends MenuSectionDefinition {
+  items: MenuItem[];
+  serviceNote: string | null; // when every dish of the section shares one service
+}
+
+export const menuSections: MenuSectionDefinition[] = [
+  { key: "entrees", title: "Entrées à picorer", subtitle: "Pour commencer en douceur" },
+  { key: "plats", title: "Plats à partager", subtitle: "L'esprit guinguette" },
+  { key: "bouillon", title: "Côté bouillon" },
+  { key: "desserts", title: "Desserts maison" },
+  { key: "vins", title: "Vins au verre", drinks: true },
+  { key: "boissons", title: "Softs & apéritifs", drinks: true }
+];
+
+const ALL_SERVICES: MenuItem["services"] = ["midi", "soir"];
+
+const item = (
+  section: MenuSectionKey,
+  position: number,
+  name: string,
+  description: string | null,
+  price: number | null,
+  allergens: Allergen[],
+  diets: Diet[] = [],
+  extra: Partial<Pick<MenuItem, "services" | "badge">> = {}
+): MenuItem => ({
+  id: null,
+  section,
+  name,
+  description,
+  price,
+  services: extra.services ?? ALL_SERVICES,
+  allergens,
+  diets,
+  badge: extra.badge ?? null,
+  position
+});
+
+export const demoMenuItems: MenuItem[] = [
+  item("entrees", 1, "Planche mixte à partager", "Charcuteries catalanes, fromages affinés, pickles maison", 18, ["lait", "sulfites", "moutarde"], [], { badge: "Populaire" }),
+  item("entrees", 2, "Tartare de saumon", "Avocat, sésame, agrumes", 14, ["poissons", "sesame", "soja"]),
+  item("entrees", 3, "Burrata crémeuse", "Tomates anciennes, pesto basilic, huile d'olive", 13, ["lait"], ["vegetarian", "gluten_free"]),
+  item("entrees", 4, "Croquetas maison", "Jambon ibérique, sauce aïoli", 9, ["gluten", "lait", "oeufs"]),
+  item("entrees", 5, "Soupe du moment", "Selon l'inspiration du chef", 8, ["celeri"], ["vegetarian"]),
+
+  item("plats", 1, "Côte de boeuf maturée 1kg", "Frites maison, sauce béarnaise (pour 2)", 58, ["oeufs", "lait", "sulfites"], ["gluten_free"], { badge: "Signature" }),
+  item("plats", 2, "Poulet rôti fermier", "Légumes de saison, jus réduit", 32, ["celeri", "sulfites"], ["gluten_free"]),
+  item("plats", 3, "Gambas à la plancha", "Ail, persil, piment d'Espelette", 28, ["crustaces"], ["gluten_free"]),
+  item("plats", 4, "Souris d'agneau confite", "Polenta crémeuse, jus au romarin", 26, ["lait", "celeri", "sulfites"], ["gluten_free"]),
+  item("plats", 5, "Poisson du marché", "Préparation selon arrivage", null, ["poissons"]),
+
+  item("bouillon", 1, "Bouillon du jour", "Recette qui change selon les saisons et l'humeur du chef", 14, ["gluten", "celeri", "soja"], [], { services: ["midi"] }),
+  item("bouillon", 2, "Bouillon complet", "Bouillon + entrée du jour", 18, ["gluten", "celeri", "soja"], [], { services: ["midi"] }),
+  item("bouillon", 3, "Formule midi", "Entrée + bouillon + dessert", 24, ["gluten", "celeri", "soja", "lait", "oeufs"], [], { services: ["midi"], badge: "Bon plan" }),
+
+  item("desserts", 1, "Crème catalane", "Caramélisée à la minute", 8, ["lait", "oeufs"], ["vegetarian", "gluten_free"]),
+  item("desserts", 2, "Tarte du moment", "Fruits de saison", 9, ["gluten", "lait", "oeufs"], ["vegetarian"]),
+  item("desserts", 3, "Mousse au chocolat", "Noir intense, éclats de noisette", 8, ["lait", "oeufs", "fruits_a_coque", "soja"], ["vegetarian", "gluten_free"]),
+  item("desserts", 4, "Assiette de fromages", "Sélection affinée, confiture de figue", 12, ["lait"], ["vegetarian"]),
+  item("desserts", 5, "Café gourmand", "Expresso et trio de mignardises", 10, ["gluten", "lait", "oeufs", "fruits_a_coque"], ["vegetarian"]),
+
+  item("vins", 1, "Rouge du Roussillon", null, 5, ["sulfites"], ["vegetarian", "gluten_free"]),
+  item("vins", 2, "Blanc sec (Côtes Catalanes)", null, 5, ["sulfites"], ["vegetarian", "gluten_free"]),
+  item("vins", 3, "Rosé de Provence", null, 5, ["sulfites"], ["vegetarian", "gluten_free"]),
+  item("vins", 4, "Vin naturel du moment", null, 7, ["sulfites"], ["vegetarian", "vegan", "gluten_free"]),
+
+  item("boissons", 1, "Limonade artisanale", null, 4, [], ["vegetarian", "vegan", "gluten_free"]),
+  item("boissons", 2, "Thé glacé maison", null, 4, [], ["vegetarian", "vegan", "gluten_free"]),
+  item("boissons", 3, "Bière locale pression", null, 5, ["gluten"], ["vegetarian", "vegan"]),
+  item("boissons", 4, "Pastis 51", null, 4, [], ["vegetarian", "vegan", "gluten_free"]),
+  item("boissons", 5, "Spritz", null, 8, ["sulfites"], ["vegetarian", "vegan", "gluten_free"])
+];
+
+/**
+ * Available menu items, in section order. Throws when Supabase is configured
+ * but unreachable, so a failed read never publishes an empty menu.
+ */
+export async function getMenuItems(): Promise<MenuItem[]> {
+  const supabaseUrl = import.meta.env.PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = import.meta.env.PUBLIC_SUPABASE_ANON_KEY || "";
+
+  if (!supabaseUrl) {
+    return demoMenuItems;
+  }
+
+  const response = await fetch(
+    `${supabaseUrl}/rest/v1/menu_items?is_available=eq.true&select=id,section,name,description,price,services,allergens,diets,badge,position&order=position,name`,
+    { headers: { apikey: supabaseAnonKey, Authorization: `Bearer ${supabaseAnonKey}` } }
+  );
+  if (!response.ok) {
+    throw new Error(`Could not read menu items: HTTP ${response.status}`);
+  }
+
+  const rows: MenuItem[] = await response.json();
+  return rows.map((row) => ({
+    ...row,
+    // NUMERIC comes back as a string
+    price: row.price === null ? null : Number(row.price)
+  }));
+}
+
+/**
+ * "Le midi uniquement" for a dish served at one service only
+ */
+export function getServiceNote(services: MenuItem["services"]): string | null {
+  if (services.length !== 1) return null;
+  return services[0] === "midi" ? "Le midi uniquement" : "Le soir uniquement";
+}
+
+/**
+ * Items grouped by section, empty sections left out. A service restriction
+ * shared by the whole section becomes its note instead of each dish's.
+ */
+export function groupMenuItems(items: MenuItem[]): MenuSection[] {
+  return menuSections
+    .map((section) => {
+      const sectionItems = items
+        .filter((menuItem) => menuItem.section === section.key)
+        .sort((a, b) => a.position - b.position);
+      const notes = new Set(sectionItems.map((menuItem) => getServiceNote(menuItem.services)));
+
+      return {
+        ...section,
+        items: sectionItems,
+        serviceNote: notes.size === 1 ? [...notes][0] : null
+      };
+    })
+    .filter((section) => section.items.length > 0);
+}
+
+/**
+ * "18€", "4,50€" or "Prix du marché"
+ */
+export function formatMenuPrice(price: number | null): string {
+  if (price === null) return "Prix du marché";
+  return `${price.toLocaleString("fr-FR", { minimumFractionDigits: Number.isInteger(price) ? 0 : 2 })}€`;
+}
+
+/**
+ * schema.org Menu of the whole card
+ */
+export function getMenuSchema(sections: MenuSection[], pageUrl: string) {
+  return {
+    "@type": "Menu",
+    "name": "Menu La Jardinerie",
+    "description": "Carte du restaurant La Jardinerie - Plats à partager, bouillon le midi, desserts maison",
+    "url": pageUrl,
+    "inLanguage": "fr",
+    "hasMenuSection": sections.map((section) => ({
+      "@type": "MenuSection",
+      "name": section.title,
+      ...(section.subtitle || section.serviceNote
+        ? { "description": [section.subtitle, section.serviceNote].filter(Boolean).join(" · ") }
+        : {}),
+      "hasMenuItem": section.items.map((menuItem) => ({
+        "@type": "MenuItem",
+        "name": menuItem.name,
+        ...(menuItem.description ? { "description": menuItem.description } : {}),
+        ...(menuItem.diets.length > 0 ? { "suitableForDiet": menuItem.diets.map((diet) => SCHEMA_DIETS[diet]) } : {}),
+        ...(menuItem.price !== null
+          ? { "offers": { "@type": "Offer", "price": menuItem.price.toFixed(2), "priceCurrency": "EUR" } }
+          : {})
+      }))
+    }))
+  };
+}
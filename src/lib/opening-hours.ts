@@ -0,0 +1,239 @@
+/**
+ * Opening hours - single source of truth for the site
+ *
+ * `serviceWindows` mirrors the service_windows table (reservable services) and
+ * `venueHours` are the opening hours shown to guests. The date pickers, the
+ * hours tables, the restaurant JSON-LD and the demo availability all derive
+ * from here. The build fails when supabase/schema.sql drifts from
+ * `serviceWindows`, and warns when the database does (see
+ * src/integrations/opening-hours-check.ts).
+ *
+ * Dependency-free so it can be imported from frontmatter, client scripts and
+ * the Astro config alike.
+ */
+
+import {
+  addDays,
+  getDayOfWeek,
+  getZonedDate,
+  getZonedTime,
+  zonedTimeToUtc
+} from "../../supabase/functions/_shared/timezone.ts";
+
+export interface ServiceWindowDefinition {
+  name: "midi" | "soir";
+  display_name: string;
+  days: number[]; // 0 = Sunday, like service_windows.dow
+  start_time: string; // HH:MM, restaurant timezone
+  end_time: string;
+  last_reservation_time: string;
+  capacity: number;
+  slot_interval: number;
+  meal_duration: number;
+}
+
+export interface VenueHours {
+  days: number[];
+  opens: string; // HH:MM
+  closes: string; // HH:MM, "00:00" = midnight
+}
+
+export interface ScheduleRow {
+  day: string;
+  hours: string;
+  closed?: boolean;
+}
+
+export const serviceWindows: ServiceWindowDefinition[] = [
+  {
+    name: "midi",
+    display_name: "Déjeuner",
+    days: [3, 4, 5],
+    start_time: "12:00",
+    end_time: "14:00",
+    last_reservation_time: "13:30",
+    capacity: 100,
+    slot_interval: 30,
+    meal_duration: 60
+  },
+  {
+    name: "soir",
+    display_name: "Dîner",
+    days: [2, 3, 4, 5, 6],
+    start_time: "19:00",
+    end_time: "23:00",
+    last_reservation_time: "21:30",
+    capacity: 100,
+    slot_interval: 30,
+    meal_duration: 60
+  }
+];
+
+export const venueHours: VenueHours[] = [
+  { days: [2], opens: "17:00", closes: "00:00" },
+  { days: [3, 4, 5], opens: "12:00", closes: "00:00" },
+  { days: [6], opens: "15:00", closes: "00:00" }
+];
+
+const DAY_NAMES = ["Dimanche", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi"];
+const SCHEMA_DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Monday first, as displayed to guests
+const WEEK = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Format a HH:MM time the French way: "12:00" -> "12h", "21:45" -> "21h45"
+ */
+export function formatHour(time: string): string {
+  const [hours, minutes] = time.split(":");
+  return minutes === "00" ? `${hours}h` : `${hours}h${minutes}`;
+}
+
+/**
+ * Service windows open on a day of week
+ */
+export function getServicesForDay(dow: number): ServiceWindowDefinition[] {
+  return serviceWindows.filter((sw) => sw.days.includes(dow));
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Slot start times of the services open on a date, as get_slots generates
+ * them before checking covers and tables: every `slot_interval` from the
+ * start of the service to its last reservation time (demo availability)
+ */
+export function getServiceSlots(
+  date: string,
+  timeZone: string
+): { service: ServiceWindowDefinition; slots: Date[] }[] {
+  return getServicesForDay(getDayOfWeek(date)).map((service) => {
+    const slots: Date[] = [];
+    const last = toMinutes(service.last_reservation_time);
+
+    for (let minute = toMinutes(service.start_time); minute <= last; minute += service.slot_interval) {
+      const time = `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+      const slot = zonedTimeToUtc(date, time, timeZone);
+      // Skipped by the spring DST change: no slot (as get_slots)
+      if (getZonedTime(slot, timeZone) === time) slots.push(slot);
+    }
+
+    return { service, slots };
+  });
+}
+
+/**
+ * Whether reservations can be made on a YYYY-MM-DD date (ignores closures)
+ */
+export function isReservableDate(date: string): boolean {
+  return getServicesForDay(getDayOfWeek(date)).length > 0;
+}
+
+/**
+ * Date picker options for the next N days with at least one service
+ * Days are counted in the restaurant timezone, not the browser's or build server's
+ */
+export function getReservableDateOptions(days: number, timeZone: string): { value: string; label: string }[] {
+  const options: { value: string; label: string }[] = [];
+  const today = getZonedDate(new Date(), timeZone);
+
+  for (let i = 0; i < days; i++) {
+    const value = addDays(today, i);
+    if (!isReservableDate(value)) continue;
+
+    // Noon UTC keeps the same calendar day whatever the display timezone
+    const label = new Date(`${value}T12:00:00Z`).toLocaleDateString("fr-FR", {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      timeZone: "UTC"
+    });
+    options.push({ value, label: label.charAt(0).toUpperCase() + label.slice(1) });
+  }
+
+  return options;
+}
+
+function getVenueHoursLabel(dow: number): string | null {
+  const hours = venueHours.find((h) => h.days.includes(dow));
+  return hours ? `${formatHour(hours.opens)} - ${formatHour(hours.closes)}` : null;
+}
+
+/**
+ * One row per day, Monday first (HoursTable)
+ */
+export function getWeeklySchedule(): ScheduleRow[] {
+  return WEEK.map((dow) => {
+    const hours = getVenueHoursLabel(dow);
+    return hours ? { day: DAY_NAMES[dow], hours } : { day: DAY_NAMES[dow], hours: "", closed: true };
+  });
+}
+
+/**
+ * Consecutive days with the same hours grouped together, e.g.
+ * "Mercredi - Vendredi: 12h - 00h", "Dimanche - Lundi: Fermé".
+ * The week starts on the first day that opens after a closed day, so closed
+ * days around the weekend end up in a single group.
+ */
+export function getGroupedSchedule(): ScheduleRow[] {
+  const startIndex = WEEK.findIndex((dow, i) =>
+    getVenueHoursLabel(dow) !== null && getVenueHoursLabel(WEEK[(i + 6) % 7]) === null
+  );
+  const week = WEEK.map((_, i) => WEEK[(Math.max(startIndex, 0) + i) % 7]);
+
+  const groups: { days: number[]; hours: string | null }[] = [];
+  for (const dow of week) {
+    const hours = getVenueHoursLabel(dow);
+    const last = groups[groups.length - 1];
+    if (last && last.hours === hours) {
+      last.days.push(dow);
+    } else {
+      groups.push({ days: [dow], hours });
+    }
+  }
+
+  return groups.map(({ days, hours }) => {
+    const first = DAY_NAMES[days[0]];
+    const day = days.length > 1 ? `${first} - ${DAY_NAMES[days[days.length - 1]]}` : first;
+    return hours ? { day, hours } : { day, hours: "", closed: true };
+  });
+}
+
+/**
+ * Service hours with the days they run, e.g. "19h - 23h" on "Mar au Sam"
+ */
+export function getServiceSummaries(): { name: string; label: string; hours: string; days: string }[] {
+  return serviceWindows.map((sw) => {
+    const days = WEEK.filter((dow) => sw.days.includes(dow)).map((dow) => DAY_NAMES[dow].slice(0, 3));
+    return {
+      name: sw.name,
+      label: `Service ${sw.name}`,
+      hours: `${formatHour(sw.start_time)} - ${formatHour(sw.end_time)}`,
+      days: days.length > 3 ? `${days[0]} au ${days[days.length - 1]}` : days.join(", ")
+    };
+  });
+}
+
+/**
+ * schema.org OpeningHoursSpecification entries for the restaurant JSON-LD
+ */
+export function getOpeningHoursSpecification() {
+  return venueHours.map((hours) => ({
+    "@type": "OpeningHoursSpecification",
+    "dayOfWeek": hours.days.length === 1
+      ? SCHEMA_DAY_NAMES[hours.days[0]]
+      : hours.days.map((dow) => SCHEMA_DAY_NAMES[dow]),
+    "opens": hours.opens,
+    "closes": hours.closes
+  }));
+}
+
+/**
+ * Expand `serviceWindows` to one entry per day, like service_windows rows
+ */
+export function getServiceWindowRows() {
+  return serviceWindows.flatMap(({ days, ...sw }) => days.map((dow) => ({ ...sw, dow })));
+}
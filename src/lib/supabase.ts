@@ -3,6 +3,14 @@
  */
 
 import { createClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getZonedDate
+} from "../../supabase/functions/_shared/timezone.ts";
+import type { GroupEventType, GroupMenuChoice } from "../../supabase/functions/_shared/group-size.ts";
+import type { BookingRequirements } from "../../supabase/functions/_shared/requirements.ts";
+import { isReservableDate } from "./opening-hours";
 
 // Environment variables - these should be set in your deployment
 const SUPABASE_URL = import.meta.env.PUBLIC_SUPABASE_URL || "";
@@ -12,6 +20,8 @@ const SUPABASE_ANON_KEY = import.meta.env.PUBLIC_SUPABASE_ANON_KEY || "";
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
 // Types for the reservation system
+export type EmailLanguage = "fr" | "en"; // language of the guest's emails
+
 export interface ServiceWindow {
   id: string;
   name: string;
@@ -25,11 +35,27 @@ export interface ServiceWindow {
 
 export interface Closure {
   id: string;
-  date: string; // YYYY-MM-DD
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  service_name: string | null; // null = whole day
+  reason?: string;
+}
+
+export interface ServiceOverride {
+  id: string;
+  date: string; // YYYY-MM-DD, replaces that day's window of the same name
+  name: string;
+  display_name: string;
+  start_time: string; // HH:MM format
+  end_time: string; // HH:MM format
+  last_reservation_time: string; // HH:MM format
+  capacity: number;
+  slot_interval: number; // minutes
+  meal_duration: number; // minutes
   reason?: string;
 }
 
-export interface Reservation {
+export interface Reservation extends BookingRequirements {
   id: string;
   code: string;
   service_name: string;
@@ -40,10 +66,44 @@ export interface Reservation {
   phone: string;
   email?: string;
   notes?: string;
-  status: "confirmed" | "cancelled" | "completed";
+  language: EmailLanguage;
+  event_id?: string; // seats booked for an event
+  status: "pending_payment" | "confirmed" | "cancelled" | "completed" | "no_show";
+  payment_expires_at?: string | null; // deadline of the card step, while pending_payment
+  guest_id?: string; // guest profile (guests table)
   created_at: string;
 }
 
+// Guest profile: one per phone number, counters kept from the reservations
+export interface Guest {
+  id: string;
+  phone: string;
+  email: string | null;
+  name: string;
+  tags: string[]; // set by staff, e.g. "vip", "allergie", "habitué"
+  notes: string | null;
+  visit_count: number;
+  covers_count: number;
+  last_visit_at: string | null;
+  no_show_count: number;
+  cancellation_count: number;
+}
+
+// Card guarantee or deposit asked by a guarantee rule (supabase/functions/_shared/payments.ts)
+export interface GuaranteePayment {
+  kind: "card_hold" | "deposit";
+  amount: number; // euros, for the whole party
+  checkout_url: string; // card step at the payment provider
+}
+
+export interface PaymentConfirmationResponse {
+  ok: boolean;
+  code?: string;
+  checkout_url?: string; // card step not completed, the guest can try again
+  error?: string;
+  error_code?: "payment_incomplete" | "origin_not_allowed" | "rate_limited";
+}
+
 export interface AvailabilitySlot {
   start_at: string;
   available_capacity: number;
@@ -51,6 +111,7 @@ export interface AvailabilitySlot {
 
 export interface AvailabilityResponse {
   date: string;
+  timezone: string; // IANA timezone of the restaurant, e.g. "Europe/Paris"
   services: {
     name: string;
     display_name: string;
@@ -58,23 +119,183 @@ export interface AvailabilityResponse {
   }[];
 }
 
-export interface BookingRequest {
+export type CalendarDayStatus = "closed" | "full" | "busy" | "open";
+
+export interface AvailabilityCalendarResponse {
+  from: string;
+  to: string;
+  timezone: string;
+  days: {
+    date: string;
+    status: CalendarDayStatus;
+    services: {
+      name: string;
+      display_name: string;
+      remaining_covers: number; // most covers left on a slot
+      full: boolean;
+      busy: boolean;
+    }[];
+  }[];
+}
+
+export interface BookingRequest extends BookingRequirements {
   start_at: string;
   service_name: string;
   guests: number;
   name: string;
   phone: string;
   email?: string;
-  notes?: string;
+  notes?: string; // anything the structured requirements do not cover
+  hold_token?: string; // waitlist hold being converted
+  language?: EmailLanguage;
+  website?: string; // honeypot, left empty by people
+  fill_time_ms: number; // time spent on the contact form
+  idempotency_key?: string; // one per booking attempt: a retry returns the same reservation
 }
 
+// Abuse check rejections of /book and /availability (supabase/functions/_shared/protection.ts)
+export type RejectionCode =
+  | "origin_not_allowed"
+  | "rate_limited"
+  | "spam_detected"
+  | "too_fast"
+  | "too_many_reservations";
+
 export interface BookingResponse {
   ok: boolean;
   code?: string;
   reservation_id?: string;
+  payment?: GuaranteePayment; // the reservation is confirmed once the card step is done
+  error?: string;
+  error_code?: RejectionCode | "duplicate_booking" | "no_show_blocked";
+}
+
+export interface ReservationLookup
+  extends Pick<Reservation, "code" | "service_name" | "start_at" | "end_at" | "guests" | "name" | "status"> {
+  // Card hold or deposit in force, charged on a cancellation after free_cancellation_until
+  guarantee_kind: GuaranteePayment["kind"] | null;
+  guarantee_amount: number | null;
+  free_cancellation_until: string | null;
+}
+
+export interface ReservationLookupResponse {
+  ok: boolean;
+  reservation?: ReservationLookup;
   error?: string;
 }
 
+export interface ModificationRequest {
+  code: string;
+  phone: string;
+  start_at: string;
+  service_name: string;
+  guests: number;
+}
+
+export interface CancellationResponse {
+  ok: boolean;
+  charged?: Pick<GuaranteePayment, "kind" | "amount">; // late cancellation
+  error?: string;
+}
+
+export interface WaitlistRequest {
+  date: string; // YYYY-MM-DD
+  service_name: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email: string;
+  language?: EmailLanguage;
+}
+
+export interface WaitlistResponse {
+  ok: boolean;
+  entry_id?: string;
+  error?: string;
+}
+
+export interface WaitlistHold {
+  date: string;
+  service_name: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email: string;
+  status: "waiting" | "offered" | "booked" | "expired" | "cancelled";
+  hold_start_at: string; // ISO datetime
+  hold_expires_at: string; // ISO datetime
+}
+
+export interface GroupRequestInput {
+  event_type: GroupEventType;
+  is_privatisation: boolean;
+  guests: number;
+  preferred_dates: string[]; // YYYY-MM-DD, 1 to 3
+  service_name: "midi" | "soir" | null; // null = no preference
+  budget_per_person?: number; // euros
+  menu_choice: GroupMenuChoice;
+  message?: string;
+  name: string;
+  phone: string;
+  email: string;
+  language?: EmailLanguage;
+}
+
+export interface GroupRequest extends GroupRequestInput {
+  id: string;
+  status: "pending" | "accepted" | "declined";
+  decline_reason: string | null;
+  reservation_id: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export interface GroupRequestResponse {
+  ok: boolean;
+  request_id?: string;
+  error?: string;
+}
+
+export interface UpcomingEvent {
+  id: string;
+  slug: string;
+  title: string;
+  date: string; // YYYY-MM-DD
+  start_at: string; // ISO datetime
+  end_at: string; // ISO datetime
+  capacity: number;
+  price_per_person: number | null; // null = free entry
+  seats_left: number;
+  sold_out: boolean;
+}
+
+export interface EventsResponse {
+  timezone: string;
+  events: UpcomingEvent[];
+}
+
+export interface EventBookingRequest {
+  event_id: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email?: string;
+  notes?: string;
+  language?: EmailLanguage;
+  website?: string; // honeypot, left empty by people
+  fill_time_ms: number; // time spent on the form
+  idempotency_key?: string;
+}
+
+export interface EventBookingResponse {
+  ok: boolean;
+  code?: string;
+  reservation_id?: string;
+  payment?: GuaranteePayment;
+  error?: string;
+  error_code?: RejectionCode | "duplicate_booking" | "no_show_blocked" | "sold_out";
+}
+
 // API base URL for Edge Functions
 const EDGE_FUNCTIONS_URL = import.meta.env.PUBLIC_SUPABASE_URL
   ? `${import.meta.env.PUBLIC_SUPABASE_URL}/functions/v1`
@@ -111,14 +332,114 @@ export async function getAvailability(
 }
 
 /**
- * Book a reservation
+ * Get a per-day availability summary for a date range (calendar picker)
+ */
+export async function getAvailabilityCalendar(
+  from: string,
+  to: string,
+  guests: number
+): Promise<AvailabilityCalendarResponse | null> {
+  try {
+    const response = await fetch(
+      `${EDGE_FUNCTIONS_URL}/availability?from=${from}&to=${to}&guests=${guests}`,
+      {
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          "Content-Type": "application/json"
+        }
+      }
+    );
+
+    if (!response.ok) {
+      console.error("Availability calendar fetch failed:", response.status);
+      return null;
+    }
+
+    return response.json();
+  } catch (error) {
+    console.error("Error fetching availability calendar:", error);
+    return null;
+  }
+}
+
+/**
+ * Book a reservation. With an idempotency key, a request whose response is
+ * lost is sent once more: the server returns the reservation it already made.
  */
 export async function bookReservation(
   data: BookingRequest
 ): Promise<BookingResponse> {
+  const attempts = data.idempotency_key ? 2 : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(`${EDGE_FUNCTIONS_URL}/book`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(data)
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          error: result.error || "Une erreur est survenue",
+          error_code: result.error_code
+        };
+      }
+
+      return result;
+    } catch (error) {
+      if (attempt < attempts) continue;
+
+      console.error("Error booking reservation:", error);
+      return {
+        ok: false,
+        error: "Erreur de connexion. Veuillez réessayer."
+      };
+    }
+  }
+}
+
+/**
+ * Look up a reservation by code and phone number
+ */
+export async function getReservation(
+  code: string,
+  phone: string
+): Promise<ReservationLookupResponse> {
   try {
-    const response = await fetch(`${EDGE_FUNCTIONS_URL}/book`, {
-      method: "POST",
+    const params = new URLSearchParams({ code, phone });
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/reservation?${params}`, {
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json"
+      }
+    });
+
+    return response.json();
+  } catch (error) {
+    console.error("Error fetching reservation:", error);
+    return {
+      ok: false,
+      error: "Erreur de connexion. Veuillez réessayer."
+    };
+  }
+}
+
+/**
+ * Move a reservation to another slot and/or guest count
+ */
+export async function modifyReservation(
+  data: ModificationRequest
+): Promise<BookingResponse> {
+  try {
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/reservation`, {
+      method: "PATCH",
       headers: {
         Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
         "Content-Type": "application/json"
@@ -126,18 +447,159 @@ export async function bookReservation(
       body: JSON.stringify(data)
     });
 
-    const result = await response.json();
+    return response.json();
+  } catch (error) {
+    console.error("Error modifying reservation:", error);
+    return {
+      ok: false,
+      error: "Erreur de connexion. Veuillez réessayer."
+    };
+  }
+}
+
+/**
+ * Cancel a reservation by code and phone number
+ */
+export async function cancelReservation(
+  code: string,
+  phone: string
+): Promise<CancellationResponse> {
+  try {
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/cancel`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ code, phone })
+    });
+
+    return response.json();
+  } catch (error) {
+    console.error("Error cancelling reservation:", error);
+    return {
+      ok: false,
+      error: "Erreur de connexion. Veuillez réessayer."
+    };
+  }
+}
+
+/**
+ * Join the waitlist of a full date/service
+ */
+export async function joinWaitlist(request: WaitlistRequest): Promise<WaitlistResponse> {
+  try {
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/waitlist`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(request)
+    });
+
+    return response.json();
+  } catch (error) {
+    console.error("Error joining waitlist:", error);
+    return {
+      ok: false,
+      error: "Erreur de connexion. Veuillez réessayer."
+    };
+  }
+}
+
+/**
+ * Send a group or privatisation request (parties above max_group_size)
+ */
+export async function submitGroupRequest(request: GroupRequestInput): Promise<GroupRequestResponse> {
+  try {
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/group-requests`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(request)
+    });
+
+    return response.json();
+  } catch (error) {
+    console.error("Error sending group request:", error);
+    return {
+      ok: false,
+      error: "Erreur de connexion. Veuillez réessayer."
+    };
+  }
+}
+
+/**
+ * Published events that have not started yet, with the seats left
+ */
+export async function getUpcomingEvents(slug?: string): Promise<EventsResponse | null> {
+  try {
+    const response = await fetch(
+      `${EDGE_FUNCTIONS_URL}/events${slug ? `?slug=${encodeURIComponent(slug)}` : ""}`,
+      {
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          "Content-Type": "application/json"
+        }
+      }
+    );
 
     if (!response.ok) {
-      return {
-        ok: false,
-        error: result.error || "Une erreur est survenue"
-      };
+      console.error("Events fetch failed:", response.status);
+      return null;
     }
 
-    return result;
+    return response.json();
   } catch (error) {
-    console.error("Error booking reservation:", error);
+    console.error("Error fetching events:", error);
+    return null;
+  }
+}
+
+/**
+ * Book seats for an event
+ */
+export async function bookEvent(data: EventBookingRequest): Promise<EventBookingResponse> {
+  try {
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/events`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(data)
+    });
+
+    return response.json();
+  } catch (error) {
+    console.error("Error booking event:", error);
+    return {
+      ok: false,
+      error: "Erreur de connexion. Veuillez réessayer."
+    };
+  }
+}
+
+/**
+ * Confirm a reservation once the guest is back from the card step
+ */
+export async function confirmPayment(reservationId: string): Promise<PaymentConfirmationResponse> {
+  try {
+    const response = await fetch(`${EDGE_FUNCTIONS_URL}/payments`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ reservation_id: reservationId })
+    });
+
+    return response.json();
+  } catch (error) {
+    console.error("Error confirming payment:", error);
     return {
       ok: false,
       error: "Erreur de connexion. Veuillez réessayer."
@@ -147,21 +609,18 @@ export async function bookReservation(
 
 /**
  * Generate date options for the next N days
+ * Days are counted in the restaurant timezone, not the browser's or build server's
  */
-export function getDateOptions(days: number = 30): { value: string; label: string }[] {
+export function getDateOptions(
+  days: number = 30,
+  timeZone: string = DEFAULT_TIMEZONE
+): { value: string; label: string }[] {
   const options: { value: string; label: string }[] = [];
-  const today = new Date();
+  const today = getZonedDate(new Date(), timeZone);
 
   for (let i = 0; i < days; i++) {
-    const date = new Date(today);
-    date.setDate(today.getDate() + i);
-
-    const value = date.toISOString().split("T")[0];
-    const label = date.toLocaleDateString("fr-FR", {
-      weekday: "long",
-      day: "numeric",
-      month: "long"
-    });
+    const value = addDays(today, i);
+    const label = formatDate(value);
 
     options.push({ value, label: label.charAt(0).toUpperCase() + label.slice(1) });
   }
@@ -170,21 +629,33 @@ export function getDateOptions(days: number = 30): { value: string; label: strin
 }
 
 /**
- * Check if a date is a closed day based on day of week
- * 0 = Sunday, 1 = Monday (both closed)
+ * Check if a date is a closed day (no service that day of week)
+ */
+export function isClosedDay(date: string): boolean {
+  return !isReservableDate(date);
+}
+
+/**
+ * Format a calendar date (YYYY-MM-DD) for display
  */
-export function isClosedDay(date: Date): boolean {
-  const dow = date.getDay();
-  return dow === 0 || dow === 1; // Sunday or Monday
+export function formatDate(date: string): string {
+  // Noon UTC keeps the same calendar day whatever the display timezone
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("fr-FR", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC"
+  });
 }
 
 /**
- * Format time for display
+ * Format time for display, as wall-clock time at the restaurant
  */
-export function formatTime(isoString: string): string {
+export function formatTime(isoString: string, timeZone: string = DEFAULT_TIMEZONE): string {
   const date = new Date(isoString);
   return date.toLocaleTimeString("fr-FR", {
     hour: "2-digit",
-    minute: "2-digit"
+    minute: "2-digit",
+    timeZone
   });
 }
@@ -0,0 +1,653 @@
+/**
+ * Transactional email templates
+ *
+ * Every guest email (booking confirmation, waitlist offer, reminder, thank-you,
+ * declined group request) is rendered here in French or English, following the language stored with
+ * the booking, as HTML with a plain-text alternative. Contact details come
+ * from the settings table (getEmailContext) and user input is escaped.
+ * The confirmation carries an .ics event so guests can add it to a calendar.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { DEFAULT_TIMEZONE } from "./timezone.ts";
+import type { EmailAttachment } from "./messaging.ts";
+import { formatPhone } from "./phone.ts";
+
+export { formatPhone };
+
+export type EmailLanguage = "fr" | "en";
+
+export interface EmailContext {
+  restaurantName: string;
+  phone: string; // E.164, from settings.contact_phone
+  email: string; // settings.contact_email
+  address: string; // one line, "street, postcode city"
+  from: string; // "Name <address>" for the From header
+  siteUrl: string; // without trailing slash
+  timezone: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface BookingDetails {
+  code: string;
+  name: string;
+  service_name: string;
+  start_at: string; // ISO
+  end_at: string; // ISO
+  guests: number;
+  language: EmailLanguage;
+  event_title?: string | null; // seats booked for an event (/events)
+}
+
+export interface HoldOfferDetails {
+  name: string;
+  guests: number;
+  hold_token: string;
+  hold_start_at: string; // ISO
+  hold_expires_at: string; // ISO
+  language: EmailLanguage;
+}
+
+export interface GroupRequestDetails {
+  name: string;
+  guests: number;
+  preferred_dates: string[]; // YYYY-MM-DD
+  is_privatisation: boolean;
+  decline_reason: string | null;
+  language: EmailLanguage;
+}
+
+const DEFAULT_CONTEXT = {
+  restaurantName: "La Jardinerie",
+  phone: "+33400000000",
+  email: "contact@lajardinerie.fr",
+  address: "9 bis Boulevard de Clairfont, 66350 Toulouges",
+  emailFrom: "reservations@lajardinerie.fr",
+  siteUrl: "https://wuilhome.github.io/lajardinerie_website",
+};
+
+const LOCALES: Record<EmailLanguage, string> = { fr: "fr-FR", en: "en-GB" };
+
+const SERVICE_NAMES: Record<EmailLanguage, Record<string, string>> = {
+  fr: { midi: "Déjeuner", soir: "Dîner" },
+  en: { midi: "Lunch", soir: "Dinner" },
+};
+
+/**
+ * Contact details and formatting context for emails, from the settings table.
+ * `siteUrl` is the SITE_URL of the caller's runtime (the public site by default).
+ */
+export async function getEmailContext(
+  supabase: SupabaseClient,
+  siteUrl: string | undefined
+): Promise<EmailContext> {
+  const { data: settings } = await supabase
+    .from("settings")
+    .select("key, value")
+    .in("key", ["restaurant_name", "contact_phone", "contact_email", "address", "email_from", "timezone"]);
+  const setting = (key: string): string | undefined =>
+    settings?.find((s: { key: string; value: string }) => s.key === key)?.value;
+
+  const restaurantName = setting("restaurant_name") || DEFAULT_CONTEXT.restaurantName;
+
+  return {
+    restaurantName,
+    phone: setting("contact_phone") || DEFAULT_CONTEXT.phone,
+    email: setting("contact_email") || DEFAULT_CONTEXT.email,
+    address: setting("address") || DEFAULT_CONTEXT.address,
+    from: `${restaurantName} <${setting("email_from") || DEFAULT_CONTEXT.emailFrom}>`,
+    siteUrl: (siteUrl || DEFAULT_CONTEXT.siteUrl).replace(/\/$/, ""),
+    timezone: setting("timezone") || DEFAULT_TIMEZONE,
+  };
+}
+
+/**
+ * Language stored with a booking, French unless it is English
+ */
+export function toEmailLanguage(language: string | null | undefined): EmailLanguage {
+  return language === "en" ? "en" : "fr";
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function getManageUrl(context: EmailContext, code: string): string {
+  return `${context.siteUrl}/gerer-reservation?code=${encodeURIComponent(code)}`;
+}
+
+function formatDate(iso: string, language: EmailLanguage, timezone: string, withYear = false): string {
+  return new Date(iso).toLocaleDateString(LOCALES[language], {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    ...(withYear ? { year: "numeric" as const } : {}),
+    timeZone: timezone,
+  });
+}
+
+function formatTime(iso: string, language: EmailLanguage, timezone: string): string {
+  return new Date(iso).toLocaleTimeString(LOCALES[language], {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: timezone,
+  });
+}
+
+function formatGuests(guests: number, language: EmailLanguage): string {
+  if (language === "en") return `${guests} guest${guests > 1 ? "s" : ""}`;
+  return `${guests} personne${guests > 1 ? "s" : ""}`;
+}
+
+// "Code : X" in French, "Code: X" in English
+function textLine(label: string, value: string, language: EmailLanguage): string {
+  return `${label}${language === "en" ? ":" : " :"} ${value}`;
+}
+
+function serviceLabel(serviceName: string, language: EmailLanguage): string {
+  return SERVICE_NAMES[language][serviceName] || serviceName;
+}
+
+// =====================================================
+// LAYOUT
+// =====================================================
+
+function button(href: string, label: string): string {
+  return `<a href="${escapeHtml(href)}" style="display: inline-block; background: #7B7A2A; color: #F6F1E6; text-decoration: none; font-weight: 600; padding: 10px 20px; border-radius: 10px;">${escapeHtml(label)}</a>`;
+}
+
+function layout(context: EmailContext, language: EmailLanguage, body: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #161616; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="text-align: center; margin-bottom: 30px;">
+    <h1 style="color: #7B7A2A; margin: 0;">${escapeHtml(context.restaurantName)}</h1>
+    <p style="color: #666; margin: 5px 0;">Guinguette & Bouillon</p>
+  </div>
+${body}
+</body>
+</html>
+  `.trim();
+}
+
+function contactFooterHtml(context: EmailContext, language: EmailLanguage): string {
+  const phone = formatPhone(context.phone);
+  return `
+    <p style="margin: 0 0 8px 0;">${language === "en" ? "Or contact us:" : "Ou contactez-nous :"}</p>
+    <p style="margin: 0 0 8px 0;">
+      <a href="tel:${escapeHtml(context.phone)}" style="color: #7B7A2A;">${escapeHtml(phone)}</a> |
+      <a href="mailto:${escapeHtml(context.email)}" style="color: #7B7A2A;">${escapeHtml(context.email)}</a>
+    </p>`;
+}
+
+function contactFooterText(context: EmailContext, language: EmailLanguage): string {
+  return textLine(language === "en" ? "Contact us" : "Contact", `${formatPhone(context.phone)} | ${context.email}`, language);
+}
+
+// =====================================================
+// BOOKING CONFIRMATION
+// =====================================================
+
+const CONFIRMATION_STRINGS = {
+  fr: {
+    subject: (code: string) => `Réservation confirmée - ${code}`,
+    title: "Réservation confirmée !",
+    hello: (name: string) => `Bonjour ${name},`,
+    intro: (restaurant: string) => `Votre réservation à ${restaurant} est confirmée. Nous avons hâte de vous accueillir.`,
+    details: "Détails de votre réservation",
+    code: "Code",
+    date: "Date",
+    time: "Heure",
+    service: "Service",
+    event: "Événement",
+    guests: "Couverts",
+    address: "Adresse",
+    map: "Voir sur Google Maps",
+    calendar: "Ajoutez la réservation à votre agenda avec le fichier joint.",
+    manage: "Pour modifier ou annuler votre réservation :",
+    manageButton: "Gérer ma réservation",
+  },
+  en: {
+    subject: (code: string) => `Booking confirmed - ${code}`,
+    title: "Your table is booked!",
+    hello: (name: string) => `Hello ${name},`,
+    intro: (restaurant: string) => `Your booking at ${restaurant} is confirmed. We look forward to welcoming you.`,
+    details: "Booking details",
+    code: "Code",
+    date: "Date",
+    time: "Time",
+    service: "Service",
+    event: "Event",
+    guests: "Guests",
+    address: "Address",
+    map: "View on Google Maps",
+    calendar: "Add the booking to your calendar with the attached file.",
+    manage: "To change or cancel your booking:",
+    manageButton: "Manage my booking",
+  },
+};
+
+export function renderConfirmationEmail(context: EmailContext, booking: BookingDetails): RenderedEmail {
+  const t = CONFIRMATION_STRINGS[booking.language];
+  const date = formatDate(booking.start_at, booking.language, context.timezone, true);
+  const time = formatTime(booking.start_at, booking.language, context.timezone);
+  const service = serviceLabel(booking.service_name, booking.language);
+  const guests = formatGuests(booking.guests, booking.language);
+  const manageUrl = getManageUrl(context, booking.code);
+  const mapUrl = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(context.address)}`;
+
+  const row = (label: string, value: string, highlight = false) => `
+      <tr>
+        <td style="padding: 8px 0; color: #666;">${label}</td>
+        <td style="padding: 8px 0; text-align: right; ${highlight ? "font-weight: bold; font-size: 18px; color: #7B7A2A; letter-spacing: 2px;" : "font-weight: 500;"}">${escapeHtml(value)}</td>
+      </tr>`;
+
+  const html = layout(context, booking.language, `
+  <div style="background: #F6F1E6; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h2 style="color: #161616; margin: 0 0 16px 0;">${t.title}</h2>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.hello(booking.name))}</p>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.intro(context.restaurantName))}</p>
+  </div>
+
+  <div style="background: #fff; border: 1px solid #e5e5e5; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h3 style="color: #7B7A2A; margin: 0 0 16px 0; font-size: 14px; text-transform: uppercase; letter-spacing: 0.5px;">${t.details}</h3>
+
+    <table style="width: 100%; border-collapse: collapse;">${row(t.code, booking.code, true)}${row(t.date, date)}${row(t.time, time)}${row(t.service, service)}${booking.event_title ? row(t.event, booking.event_title) : ""}${row(t.guests, guests)}
+    </table>
+
+    <p style="margin: 16px 0 0 0; color: #666; font-size: 14px;">${t.calendar}</p>
+  </div>
+
+  <div style="background: #fff; border: 1px solid #e5e5e5; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h3 style="color: #7B7A2A; margin: 0 0 12px 0; font-size: 14px; text-transform: uppercase; letter-spacing: 0.5px;">${t.address}</h3>
+    <p style="margin: 0; color: #161616;">${context.address.split(", ").map(escapeHtml).join("<br>")}</p>
+    <p style="margin: 12px 0 0 0;">
+      <a href="${escapeHtml(mapUrl)}" style="color: #7B7A2A;">${t.map}</a>
+    </p>
+  </div>
+
+  <div style="text-align: center; color: #666; font-size: 14px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e5e5;">
+    <p style="margin: 0 0 8px 0;">${t.manage}</p>
+    <p style="margin: 0 0 16px 0;">${button(manageUrl, t.manageButton)}</p>
+${contactFooterHtml(context, booking.language)}
+  </div>`);
+
+  const text = [
+    t.title,
+    "",
+    t.hello(booking.name),
+    t.intro(context.restaurantName),
+    "",
+    textLine(t.code, booking.code, booking.language),
+    textLine(t.date, date, booking.language),
+    textLine(t.time, time, booking.language),
+    textLine(t.service, service, booking.language),
+    ...(booking.event_title ? [textLine(t.event, booking.event_title, booking.language)] : []),
+    textLine(t.guests, guests, booking.language),
+    "",
+    textLine(t.address, context.address, booking.language),
+    "",
+    `${t.manage} ${manageUrl}`,
+    contactFooterText(context, booking.language),
+  ].join("\n");
+
+  return {
+    subject: t.subject(booking.code),
+    html,
+    text,
+    attachments: [
+      {
+        filename: `reservation-${booking.code}.ics`,
+        content: toBase64(renderIcsEvent(context, booking)),
+        content_type: "text/calendar; charset=utf-8; method=PUBLISH",
+      },
+    ],
+  };
+}
+
+// =====================================================
+// WAITLIST OFFER
+// =====================================================
+
+const HOLD_STRINGS = {
+  fr: {
+    subject: (date: string) => `Une place s'est libérée - ${date}`,
+    title: "Une place s'est libérée !",
+    hello: (name: string) => `Bonjour ${name},`,
+    offer: (guests: string, date: string, time: string, expires: string) =>
+      `Une table pour ${guests} est disponible le ${date} à ${time}. Nous vous la gardons jusqu'à ${expires}.`,
+    button: "Confirmer ma réservation",
+    footer: "Passé ce délai, la place est proposée à la personne suivante sur la liste d'attente.",
+  },
+  en: {
+    subject: (date: string) => `A table has opened up - ${date}`,
+    title: "A table has opened up!",
+    hello: (name: string) => `Hello ${name},`,
+    offer: (guests: string, date: string, time: string, expires: string) =>
+      `A table for ${guests} is available on ${date} at ${time}. We are holding it for you until ${expires}.`,
+    button: "Confirm my booking",
+    footer: "After that, the table goes to the next person on the waitlist.",
+  },
+};
+
+export function renderHoldOfferEmail(context: EmailContext, offer: HoldOfferDetails): RenderedEmail {
+  const t = HOLD_STRINGS[offer.language];
+  const date = formatDate(offer.hold_start_at, offer.language, context.timezone);
+  const time = formatTime(offer.hold_start_at, offer.language, context.timezone);
+  const expires = formatTime(offer.hold_expires_at, offer.language, context.timezone);
+  const bookUrl = `${context.siteUrl}/reserver?hold=${encodeURIComponent(offer.hold_token)}`;
+  const message = t.offer(formatGuests(offer.guests, offer.language), date, time, expires);
+
+  const html = layout(context, offer.language, `
+  <div style="background: #F6F1E6; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h2 style="color: #161616; margin: 0 0 16px 0;">${t.title}</h2>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.hello(offer.name))}</p>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(message)}</p>
+    <p style="margin: 0; text-align: center;">${button(bookUrl, t.button)}</p>
+  </div>
+
+  <div style="text-align: center; color: #999; font-size: 12px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e5e5;">
+    <p style="margin: 0;">${t.footer}</p>
+  </div>`);
+
+  const text = [t.title, "", t.hello(offer.name), message, "", textLine(t.button, bookUrl, offer.language), "", t.footer].join("\n");
+
+  return { subject: t.subject(date), html, text };
+}
+
+// =====================================================
+// REMINDER
+// =====================================================
+
+const REMINDER_STRINGS = {
+  fr: {
+    subject: (date: string, time: string) => `Rappel : votre réservation ${date} à ${time}`,
+    title: "À très bientôt !",
+    hello: (name: string) => `Bonjour ${name},`,
+    body: (date: string, time: string, guests: string, code: string) =>
+      `Nous vous attendons ${date} à ${time} pour ${guests} (réservation ${code}).`,
+    cancel: "Un empêchement ? Prévenez-nous pour libérer votre table :",
+    button: "Modifier ou annuler",
+    sms: (restaurant: string, date: string, time: string, guests: number, url: string) =>
+      `${restaurant} : à bientôt ${date} à ${time}, ${guests} pers. Un empêchement ? Modifiez ou annulez : ${url}`,
+  },
+  en: {
+    subject: (date: string, time: string) => `Reminder: your booking on ${date} at ${time}`,
+    title: "See you soon!",
+    hello: (name: string) => `Hello ${name},`,
+    body: (date: string, time: string, guests: string, code: string) =>
+      `We look forward to seeing you on ${date} at ${time} for ${guests} (booking ${code}).`,
+    cancel: "Can't make it? Let us know so we can give your table to someone else:",
+    button: "Change or cancel",
+    sms: (restaurant: string, date: string, time: string, guests: number, url: string) =>
+      `${restaurant}: see you on ${date} at ${time}, ${guests} guests. Can't make it? Change or cancel: ${url}`,
+  },
+};
+
+export function renderReminderEmail(context: EmailContext, booking: BookingDetails): RenderedEmail {
+  const t = REMINDER_STRINGS[booking.language];
+  const date = formatDate(booking.start_at, booking.language, context.timezone);
+  const time = formatTime(booking.start_at, booking.language, context.timezone);
+  const manageUrl = getManageUrl(context, booking.code);
+  const body = t.body(date, time, formatGuests(booking.guests, booking.language), booking.code);
+
+  const html = layout(context, booking.language, `
+  <div style="background: #F6F1E6; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h2 style="color: #161616; margin: 0 0 16px 0;">${t.title}</h2>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.hello(booking.name))}</p>
+    <p style="margin: 0;">${escapeHtml(body)}</p>
+  </div>
+
+  <div style="text-align: center; color: #666; font-size: 14px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e5e5;">
+    <p style="margin: 0 0 8px 0;">${t.cancel}</p>
+    <p style="margin: 0 0 16px 0;">${button(manageUrl, t.button)}</p>
+${contactFooterHtml(context, booking.language)}
+  </div>`);
+
+  const text = [
+    t.title,
+    "",
+    t.hello(booking.name),
+    body,
+    "",
+    `${t.cancel} ${manageUrl}`,
+    contactFooterText(context, booking.language),
+  ].join("\n");
+
+  return { subject: t.subject(date, time), html, text };
+}
+
+export function renderReminderSms(context: EmailContext, booking: BookingDetails): string {
+  const t = REMINDER_STRINGS[booking.language];
+  const date = formatDate(booking.start_at, booking.language, context.timezone);
+  const time = formatTime(booking.start_at, booking.language, context.timezone);
+  return t.sms(context.restaurantName, date, time, booking.guests, getManageUrl(context, booking.code));
+}
+
+// =====================================================
+// THANK-YOU
+// =====================================================
+
+const THANK_YOU_STRINGS = {
+  fr: {
+    subject: (restaurant: string) => `Merci de votre visite à ${restaurant}`,
+    title: "Merci de votre visite !",
+    hello: (name: string) => `Bonjour ${name},`,
+    body: (restaurant: string) =>
+      `Toute l'équipe vous remercie d'être venus à ${restaurant}. Au plaisir de vous revoir bientôt sous les guirlandes.`,
+    button: "Réserver à nouveau",
+    booking: (code: string) => `Réservation ${code}`,
+    view: "voir ma réservation",
+  },
+  en: {
+    subject: (restaurant: string) => `Thank you for visiting ${restaurant}`,
+    title: "Thank you for your visit!",
+    hello: (name: string) => `Hello ${name},`,
+    body: (restaurant: string) =>
+      `The whole team thanks you for coming to ${restaurant}. We hope to see you again soon under the fairy lights.`,
+    button: "Book again",
+    booking: (code: string) => `Booking ${code}`,
+    view: "view my booking",
+  },
+};
+
+export function renderThankYouEmail(context: EmailContext, booking: BookingDetails): RenderedEmail {
+  const t = THANK_YOU_STRINGS[booking.language];
+  const bookUrl = `${context.siteUrl}/reserver`;
+  const manageUrl = getManageUrl(context, booking.code);
+
+  const html = layout(context, booking.language, `
+  <div style="background: #F6F1E6; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h2 style="color: #161616; margin: 0 0 16px 0;">${t.title}</h2>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.hello(booking.name))}</p>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.body(context.restaurantName))}</p>
+    <p style="margin: 0; text-align: center;">${button(bookUrl, t.button)}</p>
+  </div>
+
+  <div style="text-align: center; color: #999; font-size: 12px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e5e5;">
+    <p style="margin: 0;">
+      ${escapeHtml(t.booking(booking.code))} — <a href="${escapeHtml(manageUrl)}" style="color: #7B7A2A;">${t.view}</a>
+    </p>
+  </div>`);
+
+  const text = [
+    t.title,
+    "",
+    t.hello(booking.name),
+    t.body(context.restaurantName),
+    "",
+    textLine(t.button, bookUrl, booking.language),
+    textLine(t.booking(booking.code), manageUrl, booking.language),
+  ].join("\n");
+
+  return { subject: t.subject(context.restaurantName), html, text };
+}
+
+// =====================================================
+// GROUP REQUEST DECLINED
+// =====================================================
+
+const GROUP_DECLINED_STRINGS = {
+  fr: {
+    subject: (restaurant: string) => `Votre demande de groupe à ${restaurant}`,
+    title: "Votre demande de groupe",
+    hello: (name: string) => `Bonjour ${name},`,
+    body: (kind: string, guests: string, dates: string) =>
+      `Merci pour votre demande de ${kind} pour ${guests} (${dates}). Nous ne pouvons malheureusement pas vous accueillir à ces dates.`,
+    group: "réservation de groupe",
+    privatisation: "privatisation",
+    reason: "Précision de l'équipe",
+    other: "N'hésitez pas à nous contacter pour trouver une autre date ensemble.",
+  },
+  en: {
+    subject: (restaurant: string) => `Your group request at ${restaurant}`,
+    title: "Your group request",
+    hello: (name: string) => `Hello ${name},`,
+    body: (kind: string, guests: string, dates: string) =>
+      `Thank you for your ${kind} request for ${guests} (${dates}). Unfortunately we cannot host you on these dates.`,
+    group: "group booking",
+    privatisation: "private hire",
+    reason: "A note from the team",
+    other: "Feel free to get in touch so we can find another date together.",
+  },
+};
+
+export function renderGroupDeclinedEmail(context: EmailContext, request: GroupRequestDetails): RenderedEmail {
+  const t = GROUP_DECLINED_STRINGS[request.language];
+  // Dates are calendar days: noon UTC stays on the same day in any European timezone
+  const dates = request.preferred_dates
+    .map((date) => formatDate(`${date}T12:00:00Z`, request.language, context.timezone))
+    .join(", ");
+  const body = t.body(
+    request.is_privatisation ? t.privatisation : t.group,
+    formatGuests(request.guests, request.language),
+    dates
+  );
+
+  const html = layout(context, request.language, `
+  <div style="background: #F6F1E6; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h2 style="color: #161616; margin: 0 0 16px 0;">${t.title}</h2>
+    <p style="margin: 0 0 16px 0;">${escapeHtml(t.hello(request.name))}</p>
+    <p style="margin: 0;">${escapeHtml(body)}</p>
+  </div>
+${request.decline_reason ? `
+  <div style="background: #fff; border: 1px solid #e5e5e5; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+    <h3 style="color: #7B7A2A; margin: 0 0 12px 0; font-size: 14px; text-transform: uppercase; letter-spacing: 0.5px;">${t.reason}</h3>
+    <p style="margin: 0;">${escapeHtml(request.decline_reason)}</p>
+  </div>
+` : ""}
+  <div style="text-align: center; color: #666; font-size: 14px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e5e5;">
+    <p style="margin: 0 0 16px 0;">${t.other}</p>
+${contactFooterHtml(context, request.language)}
+  </div>`);
+
+  const text = [
+    t.title,
+    "",
+    t.hello(request.name),
+    body,
+    ...(request.decline_reason ? ["", textLine(t.reason, request.decline_reason, request.language)] : []),
+    "",
+    t.other,
+    contactFooterText(context, request.language),
+  ].join("\n");
+
+  return { subject: t.subject(context.restaurantName), html, text };
+}
+
+// =====================================================
+// CALENDAR EVENT
+// =====================================================
+
+/**
+ * iCalendar (RFC 5545) event for a booking, in UTC
+ */
+export function renderIcsEvent(context: EmailContext, booking: BookingDetails): string {
+  const service = serviceLabel(booking.service_name, booking.language);
+  const summary = booking.language === "en"
+    ? `${service} at ${context.restaurantName}`
+    : `${service} à ${context.restaurantName}`;
+  const description = [
+    `${booking.language === "en" ? "Booking" : "Réservation"} ${booking.code} - ${formatGuests(booking.guests, booking.language)}`,
+    getManageUrl(context, booking.code),
+  ].join("\n");
+  const host = new URL(context.siteUrl).hostname;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${escapeIcsText(context.restaurantName)}//Reservations//${booking.language.toUpperCase()}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${booking.code}@${host}`,
+    `DTSTAMP:${toIcsDate(new Date().toISOString())}`,
+    `DTSTART:${toIcsDate(booking.start_at)}`,
+    `DTEND:${toIcsDate(booking.end_at)}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+    `LOCATION:${escapeIcsText(context.address)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `URL:${getManageUrl(context, booking.code)}`,
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+// 2025-06-14T19:30:00.000Z -> 20250614T193000Z
+function toIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function toBase64(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
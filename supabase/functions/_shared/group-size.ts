@@ -0,0 +1,29 @@
+/**
+ * Online booking limit
+ *
+ * Parties of up to `max_group_size` guests (setting) book online; larger
+ * parties and privatisations send a group request (POST /group-requests),
+ * which staff accept or decline. The database enforces the setting; this
+ * default applies when it is missing.
+ *
+ * No runtime-specific imports: this module is shared by the edge functions
+ * (Deno) and the site (Vite).
+ */
+
+export const DEFAULT_MAX_GROUP_SIZE = 12;
+
+export const GROUP_EVENT_TYPES = ["anniversaire", "famille", "entreprise", "association", "autre"] as const;
+
+export const GROUP_MENU_CHOICES = ["bouillon", "planches", "buffet", "a_definir"] as const;
+
+export type GroupEventType = (typeof GROUP_EVENT_TYPES)[number];
+
+export type GroupMenuChoice = (typeof GROUP_MENU_CHOICES)[number];
+
+/**
+ * max_group_size setting value (a JSON number), or the default when unset or invalid
+ */
+export function parseMaxGroupSize(value: unknown): number {
+  const max = Number(value);
+  return Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_GROUP_SIZE;
+}
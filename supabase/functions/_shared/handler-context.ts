@@ -0,0 +1,32 @@
+/**
+ * What a request handler takes from its runtime
+ *
+ * The /availability and /book handlers (handler.ts, next to their index.ts)
+ * get the database client and the providers as an argument instead of
+ * reading Deno.env, so they run without `serve`: against the local Supabase
+ * stack (README, "Backend local") or in a test with a stub client. Each
+ * index.ts only builds the context of the deployment and serves the handler.
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { type EmailProvider, getEmailProvider } from "./messaging.ts";
+import { type PaymentProvider, getPaymentProvider } from "./payments.ts";
+
+export interface HandlerContext {
+  supabase: SupabaseClient; // service role
+  emailProvider: EmailProvider | null;
+  paymentProvider: PaymentProvider | null;
+  siteUrl: string | undefined; // links of the emails (the public site when undefined)
+}
+
+/**
+ * Context of the deployment: service role client and configured providers
+ */
+export function getHandlerContext(): HandlerContext {
+  return {
+    supabase: createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!),
+    emailProvider: getEmailProvider(),
+    paymentProvider: getPaymentProvider(),
+    siteUrl: Deno.env.get("SITE_URL"),
+  };
+}
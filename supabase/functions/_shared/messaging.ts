@@ -0,0 +1,116 @@
+/**
+ * Outgoing messages for edge functions
+ *
+ * Emails and SMS go through small provider interfaces so the senders can be
+ * swapped, e.g. for a fake that records messages in tests. The real providers
+ * are Resend (RESEND_API_KEY) for email and Twilio (TWILIO_ACCOUNT_SID,
+ * TWILIO_AUTH_TOKEN, TWILIO_FROM) for SMS; each is null when not configured.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+  content_type: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  from?: string; // "Name <address>", defaults to the reservations address
+  subject: string;
+  html: string;
+  text?: string; // plain-text alternative
+  attachments?: EmailAttachment[];
+}
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. "+33612345678"
+  body: string;
+}
+
+export interface EmailProvider {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
+
+const EMAIL_FROM = "La Jardinerie <reservations@lajardinerie.fr>";
+
+/**
+ * Email provider backed by the Resend API
+ */
+export function createResendProvider(apiKey: string): EmailProvider {
+  return {
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from || EMAIL_FROM,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          attachments: message.attachments,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Resend API error: ${error}`);
+      }
+    },
+  };
+}
+
+/**
+ * SMS provider backed by the Twilio Messages API
+ */
+export function createTwilioProvider(
+  accountSid: string,
+  authToken: string,
+  from: string
+): SmsProvider {
+  return {
+    async send(message) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Twilio API error: ${error}`);
+      }
+    },
+  };
+}
+
+/**
+ * Email provider configured for this deployment, or null
+ */
+export function getEmailProvider(): EmailProvider | null {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  return resendApiKey ? createResendProvider(resendApiKey) : null;
+}
+
+/**
+ * SMS provider configured for this deployment, or null
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_FROM");
+  return accountSid && authToken && from ? createTwilioProvider(accountSid, authToken, from) : null;
+}
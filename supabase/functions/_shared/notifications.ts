@@ -0,0 +1,215 @@
+/**
+ * Scheduled guest notifications
+ *
+ * A reminder goes out `reminder_hours_before` hours (setting, 24 by default)
+ * before a confirmed reservation, by email and by SMS when an SMS provider is
+ * configured. A thank-you email follows once a reservation marked completed
+ * has ended. Every message links to the manage page with the reservation code.
+ *
+ * Each send is claimed in the notifications table first, so overlapping runs
+ * never send the same message twice. Providers are passed in, so a fake can
+ * record the messages instead of sending them.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import type { EmailProvider, SmsProvider } from "./messaging.ts";
+import {
+  type BookingDetails,
+  getEmailContext,
+  renderReminderEmail,
+  renderReminderSms,
+  renderThankYouEmail,
+  toEmailLanguage,
+} from "./email-templates.ts";
+
+export interface NotificationProviders {
+  email: EmailProvider | null;
+  sms: SmsProvider | null;
+}
+
+export interface NotificationRunResult {
+  sent: number;
+  failed: number;
+}
+
+type NotificationKind = "reminder" | "thank_you";
+type NotificationChannel = "email" | "sms";
+
+interface NotifiedReservation {
+  id: string;
+  code: string;
+  service_name: string;
+  start_at: string;
+  end_at: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email: string | null;
+  language: string;
+  created_at: string;
+}
+
+const RESERVATION_COLUMNS = "id, code, service_name, start_at, end_at, guests, name, phone, email, language, created_at";
+
+// Thank-you messages only go to recent visits, so turning the scheduler on
+// does not email every past guest
+const THANK_YOU_MAX_AGE_DAYS = 3;
+
+/**
+ * Send every reminder and thank-you message that is due at `now`
+ * (`siteUrl` as for getEmailContext)
+ */
+export async function sendScheduledNotifications(
+  supabase: SupabaseClient,
+  providers: NotificationProviders,
+  siteUrl: string | undefined,
+  now: Date = new Date()
+): Promise<NotificationRunResult> {
+  const result: NotificationRunResult = { sent: 0, failed: 0 };
+  if (!providers.email && !providers.sms) return result;
+
+  const context = await getEmailContext(supabase, siteUrl);
+  const { data: reminderSetting } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", "reminder_hours_before")
+    .maybeSingle();
+  const reminderMs = (Number(reminderSetting?.value) || 24) * 60 * 60 * 1000;
+
+  // Reminders: confirmed reservations starting within the reminder window
+  const { data: upcoming, error: upcomingError } = await supabase
+    .from("reservations")
+    .select(RESERVATION_COLUMNS)
+    .eq("status", "confirmed")
+    .gt("start_at", now.toISOString())
+    .lte("start_at", new Date(now.getTime() + reminderMs).toISOString());
+
+  if (upcomingError) {
+    throw upcomingError;
+  }
+
+  // Guests who booked inside the window have just had their confirmation
+  const reminders = ((upcoming || []) as NotifiedReservation[]).filter((res) =>
+    new Date(res.created_at).getTime() <= new Date(res.start_at).getTime() - reminderMs
+  );
+  const alreadySent = await getSentNotifications(supabase, reminders.map((res) => res.id));
+
+  for (const res of reminders) {
+    const booking = toBookingDetails(res);
+
+    if (providers.email && res.email && !alreadySent.has(`${res.id}:reminder:email`)) {
+      const to = res.email;
+      await deliver(supabase, result, res.id, "reminder", "email", () =>
+        providers.email!.send({ to, from: context.from, ...renderReminderEmail(context, booking) })
+      );
+    }
+
+    if (providers.sms && !alreadySent.has(`${res.id}:reminder:sms`)) {
+      await deliver(supabase, result, res.id, "reminder", "sms", () =>
+        providers.sms!.send({
+          to: res.phone, // E.164
+          body: renderReminderSms(context, booking),
+        })
+      );
+    }
+  }
+
+  if (!providers.email) return result;
+
+  // Thank-you: completed reservations whose meal is over
+  const { data: completed, error: completedError } = await supabase
+    .from("reservations")
+    .select(RESERVATION_COLUMNS)
+    .eq("status", "completed")
+    .lte("end_at", now.toISOString())
+    .gte("end_at", new Date(now.getTime() - THANK_YOU_MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    .not("email", "is", null);
+
+  if (completedError) {
+    throw completedError;
+  }
+
+  const visits = (completed || []) as NotifiedReservation[];
+  const alreadyThanked = await getSentNotifications(supabase, visits.map((res) => res.id));
+
+  for (const res of visits) {
+    if (!res.email || alreadyThanked.has(`${res.id}:thank_you:email`)) continue;
+
+    const to = res.email;
+    await deliver(supabase, result, res.id, "thank_you", "email", () =>
+      providers.email!.send({ to, from: context.from, ...renderThankYouEmail(context, toBookingDetails(res)) })
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Notifications already claimed for these reservations, as
+ * "reservation_id:kind:channel" keys
+ */
+async function getSentNotifications(
+  supabase: SupabaseClient,
+  reservationIds: string[]
+): Promise<Set<string>> {
+  if (reservationIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("reservation_id, kind, channel")
+    .in("reservation_id", reservationIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Set((data || []).map((n) => `${n.reservation_id}:${n.kind}:${n.channel}`));
+}
+
+/**
+ * Claim a notification, send it and record the outcome. A failed send is
+ * kept as `failed` and not retried.
+ */
+async function deliver(
+  supabase: SupabaseClient,
+  result: NotificationRunResult,
+  reservationId: string,
+  kind: NotificationKind,
+  channel: NotificationChannel,
+  send: () => Promise<void>
+) {
+  // The unique (reservation_id, kind, channel) row turns a second claim into a no-op
+  const { data: claimed, error } = await supabase
+    .from("notifications")
+    .upsert(
+      { reservation_id: reservationId, kind, channel },
+      { onConflict: "reservation_id,kind,channel", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!claimed || claimed.length === 0) return;
+
+  try {
+    await send();
+    await supabase
+      .from("notifications")
+      .update({ status: "sent", sent_at: new Date().toISOString() })
+      .eq("id", claimed[0].id);
+    result.sent++;
+  } catch (sendError) {
+    console.error(`Notification ${kind}/${channel} failed:`, sendError);
+    await supabase
+      .from("notifications")
+      .update({ status: "failed", error: String(sendError) })
+      .eq("id", claimed[0].id);
+    result.failed++;
+  }
+}
+
+function toBookingDetails(res: NotifiedReservation): BookingDetails {
+  return { ...res, language: toEmailLanguage(res.language) };
+}
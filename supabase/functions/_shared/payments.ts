@@ -0,0 +1,322 @@
+/**
+ * Card guarantees and deposits
+ *
+ * When a guarantee rule applies (guarantee_rules setting), book_reservation
+ * and book_event leave the reservation in pending_payment with a payments
+ * row. The booking endpoint then opens a checkout at the payment provider and
+ * sends the guest there; /payments confirms the reservation once the guest
+ * is back and the provider reports the card step as done.
+ *
+ * Charges and releases are decided in the database (queue_guarantee_action)
+ * and carried out here by processPaymentActions, which /payments, /cancel and
+ * the notifications job call.
+ *
+ * Like the message senders, the provider sits behind a small interface. The
+ * real provider is Stripe (STRIPE_SECRET_KEY); PAYMENT_PROVIDER=fake accepts
+ * every card without leaving the site, for local runs and tests.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+
+export type GuaranteeKind = "card_hold" | "deposit";
+
+export interface CheckoutRequest {
+  reservation_id: string;
+  kind: GuaranteeKind;
+  amount: number; // euros, for the whole party
+  description: string;
+  email?: string | null;
+  return_url: string; // the guest comes back here, done or not
+}
+
+export interface Checkout {
+  provider_ref: string;
+  checkout_url: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCheckout(request: CheckoutRequest): Promise<Checkout>;
+  // TRUE once the card is held or the deposit paid
+  isAuthorized(providerRef: string): Promise<boolean>;
+  // Charge a card hold (a deposit is already paid), amount in euros
+  capture(providerRef: string, kind: GuaranteeKind, amount: number): Promise<void>;
+  // Let a card hold go, refund a deposit
+  release(providerRef: string, kind: GuaranteeKind): Promise<void>;
+}
+
+export interface PaymentOperation {
+  operation: "checkout" | "capture" | "release";
+  provider_ref: string;
+  kind: GuaranteeKind;
+  amount?: number;
+}
+
+export interface PaymentRunResult {
+  captured: number;
+  released: number;
+  failed: number;
+}
+
+/**
+ * Payment provider backed by Stripe Checkout. A card hold saves the card for
+ * later (setup mode, on a customer of its own) and a no-show is charged off
+ * session, however far ahead the booking was made; a deposit is a plain
+ * payment.
+ */
+export function createStripeProvider(secretKey: string): PaymentProvider {
+  const stripe = async (path: string, params?: Record<string, string>) => {
+    const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+      method: params ? "POST" : "GET",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params ? new URLSearchParams(params) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Stripe API error: ${error}`);
+    }
+
+    return await response.json();
+  };
+
+  const getPaymentIntent = async (sessionId: string): Promise<string> => {
+    const session = await stripe(`checkout/sessions/${encodeURIComponent(sessionId)}`);
+    if (!session.payment_intent) {
+      throw new Error(`Stripe checkout ${sessionId} has no payment`);
+    }
+    return session.payment_intent;
+  };
+
+  // Card saved by a setup-mode checkout, with the customer it is attached to
+  const getSavedCard = async (sessionId: string): Promise<{ customer: string; payment_method: string }> => {
+    const session = await stripe(`checkout/sessions/${encodeURIComponent(sessionId)}?expand[]=setup_intent`);
+    if (!session.setup_intent?.payment_method) {
+      throw new Error(`Stripe checkout ${sessionId} has no saved card`);
+    }
+    return { customer: session.customer, payment_method: session.setup_intent.payment_method };
+  };
+
+  return {
+    name: "stripe",
+
+    async createCheckout(request) {
+      if (request.kind === "card_hold") {
+        const customer = await stripe("customers", {
+          "metadata[reservation_id]": request.reservation_id,
+          ...(request.email ? { email: request.email } : {}),
+        });
+        const session = await stripe("checkout/sessions", {
+          mode: "setup",
+          currency: "eur",
+          customer: customer.id,
+          success_url: request.return_url,
+          cancel_url: request.return_url,
+          client_reference_id: request.reservation_id,
+          "payment_method_types[0]": "card",
+          "setup_intent_data[description]": request.description,
+        });
+
+        return { provider_ref: session.id, checkout_url: session.url };
+      }
+
+      const session = await stripe("checkout/sessions", {
+        mode: "payment",
+        success_url: request.return_url,
+        cancel_url: request.return_url,
+        client_reference_id: request.reservation_id,
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": "eur",
+        "line_items[0][price_data][unit_amount]": String(Math.round(request.amount * 100)),
+        "line_items[0][price_data][product_data][name]": request.description,
+        ...(request.email ? { customer_email: request.email } : {}),
+      });
+
+      return { provider_ref: session.id, checkout_url: session.url };
+    },
+
+    async isAuthorized(providerRef) {
+      const session = await stripe(`checkout/sessions/${encodeURIComponent(providerRef)}`);
+      return session.status === "complete";
+    },
+
+    async capture(providerRef, kind, amount) {
+      if (kind === "deposit") return;
+      const card = await getSavedCard(providerRef);
+      await stripe("payment_intents", {
+        amount: String(Math.round(amount * 100)),
+        currency: "eur",
+        customer: card.customer,
+        payment_method: card.payment_method,
+        off_session: "true",
+        confirm: "true",
+        description: "Garantie de réservation (no-show ou annulation tardive)",
+      });
+    },
+
+    async release(providerRef, kind) {
+      if (kind === "deposit") {
+        const paymentIntent = await getPaymentIntent(providerRef);
+        await stripe("refunds", { payment_intent: paymentIntent });
+      } else {
+        // Nothing was charged: the saved card is simply removed
+        const card = await getSavedCard(providerRef);
+        await stripe(`payment_methods/${card.payment_method}/detach`, {});
+      }
+    },
+  };
+}
+
+/**
+ * Payment provider that accepts every card: the checkout link leads straight
+ * back to the site. Operations are recorded in `operations`.
+ */
+export function createFakePaymentProvider(): PaymentProvider & { operations: PaymentOperation[] } {
+  const operations: PaymentOperation[] = [];
+
+  return {
+    name: "fake",
+    operations,
+
+    async createCheckout(request) {
+      const providerRef = `fake_${request.reservation_id}`;
+      operations.push({ operation: "checkout", provider_ref: providerRef, kind: request.kind, amount: request.amount });
+      return { provider_ref: providerRef, checkout_url: request.return_url };
+    },
+
+    async isAuthorized(providerRef) {
+      return providerRef.startsWith("fake_");
+    },
+
+    async capture(providerRef, kind, amount) {
+      operations.push({ operation: "capture", provider_ref: providerRef, kind, amount });
+    },
+
+    async release(providerRef, kind) {
+      operations.push({ operation: "release", provider_ref: providerRef, kind });
+    },
+  };
+}
+
+/**
+ * Payment provider configured for this deployment, or null
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (stripeSecretKey) return createStripeProvider(stripeSecretKey);
+  return Deno.env.get("PAYMENT_PROVIDER") === "fake" ? createFakePaymentProvider() : null;
+}
+
+/**
+ * Open the checkout of a reservation left in pending_payment by the booking
+ * functions, and store it on its payments row. A replayed booking gets the
+ * checkout opened the first time.
+ */
+export async function startGuaranteeCheckout(
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  reservationId: string,
+  returnUrl: string,
+  email?: string | null
+): Promise<{ kind: GuaranteeKind; amount: number; checkout_url: string }> {
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("id, kind, amount, rule, checkout_url")
+    .eq("reservation_id", reservationId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  // NUMERIC comes back as a string
+  const amount = Number(payment.amount);
+
+  if (payment.checkout_url) {
+    return { kind: payment.kind, amount, checkout_url: payment.checkout_url };
+  }
+
+  const checkout = await provider.createCheckout({
+    reservation_id: reservationId,
+    kind: payment.kind,
+    amount,
+    description: payment.kind === "deposit"
+      ? `Acompte — La Jardinerie${payment.rule ? ` (${payment.rule})` : ""}`
+      : `Garantie de réservation — La Jardinerie${payment.rule ? ` (${payment.rule})` : ""}`,
+    email,
+    return_url: returnUrl,
+  });
+
+  const { error: updateError } = await supabase
+    .from("payments")
+    .update({ provider: provider.name, provider_ref: checkout.provider_ref, checkout_url: checkout.checkout_url })
+    .eq("id", payment.id);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return { kind: payment.kind, amount, checkout_url: checkout.checkout_url };
+}
+
+/**
+ * Carry out the charges and releases queued by queue_guarantee_action. Each
+ * row is claimed by moving it to its final status first, so overlapping runs
+ * never charge twice; a refused operation leaves the row in failed.
+ */
+export async function processPaymentActions(
+  supabase: SupabaseClient,
+  provider: PaymentProvider
+): Promise<PaymentRunResult> {
+  const result: PaymentRunResult = { captured: 0, released: 0, failed: 0 };
+
+  const { data: queued, error } = await supabase
+    .from("payments")
+    .select("id, kind, amount, status, provider_ref")
+    .in("status", ["capture_pending", "release_pending"]);
+
+  if (error) {
+    throw error;
+  }
+
+  for (const payment of queued || []) {
+    const capture = payment.status === "capture_pending";
+
+    const { data: claimed } = await supabase
+      .from("payments")
+      .update({ status: capture ? "captured" : "released" })
+      .eq("id", payment.id)
+      .eq("status", payment.status)
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      // A release without a checkout (the card step never started) has nothing to undo
+      if (payment.provider_ref) {
+        if (capture) {
+          await provider.capture(payment.provider_ref, payment.kind, Number(payment.amount));
+        } else {
+          await provider.release(payment.provider_ref, payment.kind);
+        }
+      }
+      if (capture) {
+        result.captured++;
+      } else {
+        result.released++;
+      }
+    } catch (providerError) {
+      console.error("Payment operation failed:", providerError);
+      await supabase
+        .from("payments")
+        .update({ status: "failed", error: String(providerError) })
+        .eq("id", payment.id);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
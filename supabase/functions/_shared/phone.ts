@@ -0,0 +1,79 @@
+/**
+ * Phone numbers
+ *
+ * Numbers are stored in E.164 ("+33612345678") on reservations, guests,
+ * waitlist entries and group requests, so the lookups by phone number, the
+ * guest profiles and the SMS all see one spelling of a number. A number
+ * typed without its country code is read in the default region (France).
+ * The normalize_phone SQL function gives the same result for every number
+ * normalizePhone accepts.
+ *
+ * No runtime-specific imports: this module is shared by the edge functions
+ * (Deno) and the site (Vite).
+ */
+
+export const DEFAULT_PHONE_REGION = "FR";
+
+interface PhoneRule {
+  countryCode: string;
+  trunkPrefix: boolean; // national numbers start with 0, dropped after the country code
+  pattern: RegExp; // national significant number
+}
+
+// Countries of most guests; other country codes get the generic E.164 check
+const PHONE_RULES: Record<string, PhoneRule> = {
+  FR: { countryCode: "33", trunkPrefix: true, pattern: /^[1-9]\d{8}$/ },
+  ES: { countryCode: "34", trunkPrefix: false, pattern: /^[6-9]\d{8}$/ },
+  AD: { countryCode: "376", trunkPrefix: false, pattern: /^[1-9]\d{5}$/ },
+  MC: { countryCode: "377", trunkPrefix: false, pattern: /^[4689]\d{7,8}$/ },
+  BE: { countryCode: "32", trunkPrefix: true, pattern: /^[1-9]\d{7,8}$/ },
+  CH: { countryCode: "41", trunkPrefix: true, pattern: /^[1-9]\d{8}$/ },
+  LU: { countryCode: "352", trunkPrefix: false, pattern: /^[2-9]\d{3,10}$/ },
+  DE: { countryCode: "49", trunkPrefix: true, pattern: /^[1-9]\d{5,12}$/ },
+  NL: { countryCode: "31", trunkPrefix: true, pattern: /^[1-9]\d{8}$/ },
+  GB: { countryCode: "44", trunkPrefix: true, pattern: /^[1-9]\d{9}$/ },
+  IE: { countryCode: "353", trunkPrefix: true, pattern: /^[1-9]\d{6,9}$/ },
+  IT: { countryCode: "39", trunkPrefix: false, pattern: /^[03]\d{5,10}$/ }, // the leading 0 is part of the number
+  PT: { countryCode: "351", trunkPrefix: false, pattern: /^[29]\d{8}$/ },
+  US: { countryCode: "1", trunkPrefix: false, pattern: /^[2-9]\d{2}[2-9]\d{6}$/ }
+};
+
+/**
+ * "06 12 34 56 78", "+34 612 345 678" or "0033 6..." -> E.164, or null when
+ * the number is not valid for its country
+ */
+export function normalizePhone(input: string, region: string = DEFAULT_PHONE_REGION): string | null {
+  let value = String(input ?? "").trim().replace(/[\s\-.()\/]/g, "");
+  if (value.startsWith("00")) value = `+${value.slice(2)}`;
+  if (!/^\+?\d+$/.test(value)) return null;
+
+  if (!value.startsWith("+")) {
+    const rule = PHONE_RULES[region];
+    if (!rule) return null;
+    if (rule.trunkPrefix) {
+      if (!value.startsWith("0")) return null;
+      value = value.slice(1);
+    }
+    return rule.pattern.test(value) ? `+${rule.countryCode}${value}` : null;
+  }
+
+  const digits = value.slice(1);
+  // Country codes are prefix-free: at most one rule matches
+  const rule = Object.values(PHONE_RULES).find((candidate) => digits.startsWith(candidate.countryCode));
+  if (!rule) {
+    return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+  }
+
+  let national = digits.slice(rule.countryCode.length);
+  // "+33 (0)6 ..." keeps its trunk prefix
+  if (rule.trunkPrefix && national.startsWith("0")) national = national.slice(1);
+  return rule.pattern.test(national) ? `+${rule.countryCode}${national}` : null;
+}
+
+/**
+ * "+33612345678" -> "06 12 34 56 78"; other numbers are shown as stored
+ */
+export function formatPhone(phone: string): string {
+  const french = phone.match(/^\+33(\d{9})$/);
+  return french ? `0${french[1]}`.replace(/(\d{2})(?=\d)/g, "$1 ") : phone;
+}
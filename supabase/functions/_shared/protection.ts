@@ -0,0 +1,124 @@
+/**
+ * Abuse protection for the public booking endpoints
+ *
+ * /book, /availability, /events, /reservation and /cancel are called with the
+ * anon key from any browser, so they run these checks before touching the
+ * reservations:
+ * - the request's Origin must be listed in the `allowed_origins` setting (a
+ *   JSON array such as ["https://example.github.io"]; empty allows any origin),
+ * - per-IP limits, and per-phone limits for bookings and for the code + phone
+ *   lookups, counted in Postgres (hit_rate_limit) so every function instance
+ *   shares the same counters,
+ * - bookings only: the contact form's honeypot field must be empty and the form
+ *   must have stayed open for a few seconds.
+ * The cap on upcoming reservations per phone number is enforced by
+ * book_reservation itself. The anon key cannot call book_reservation or
+ * book_event directly (FUNCTION PERMISSIONS in schema.sql), so no booking
+ * skips these checks.
+ *
+ * Each rejection has an error_code the widget turns into an explanation.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+
+export type RejectionCode =
+  | "origin_not_allowed"
+  | "rate_limited"
+  | "spam_detected"
+  | "too_fast"
+  | "too_many_reservations";
+
+export interface Rejection {
+  status: number;
+  error_code: RejectionCode;
+  error: string;
+}
+
+export interface RateLimit {
+  limit: number;
+  window_seconds: number;
+}
+
+export const AVAILABILITY_LIMIT_PER_IP: RateLimit = { limit: 120, window_seconds: 600 };
+export const BOOK_LIMIT_PER_IP: RateLimit = { limit: 10, window_seconds: 3600 };
+export const BOOK_LIMIT_PER_PHONE: RateLimit = { limit: 5, window_seconds: 3600 };
+
+// Look up, modify or cancel by code + phone: every attempt counts, a wrong code
+// too, so reservation codes cannot be guessed for a known number
+export const MANAGE_LIMIT_PER_IP: RateLimit = { limit: 20, window_seconds: 3600 };
+export const MANAGE_LIMIT_PER_PHONE: RateLimit = { limit: 10, window_seconds: 3600 };
+
+/** Shortest time a person takes to fill in the contact form (ms) */
+export const MIN_FILL_TIME_MS = 3000;
+
+/**
+ * Rejects requests from an origin missing from the allowed_origins setting.
+ * Requests without an Origin header are rejected too once the list is set:
+ * browsers always send it on these cross-origin calls.
+ */
+export function checkOrigin(req: Request, allowedOrigins: unknown): Rejection | null {
+  if (!Array.isArray(allowedOrigins) || allowedOrigins.length === 0) return null;
+
+  const origin = req.headers.get("Origin");
+  if (origin && allowedOrigins.includes(origin)) return null;
+
+  return { status: 403, error_code: "origin_not_allowed", error: "Origine non autorisée" };
+}
+
+/**
+ * Client IP as seen by the Supabase edge runtime: the last X-Forwarded-For
+ * hop, appended by the Supabase proxy. The earlier hops come from the client,
+ * which could change them on every request to reset its limit.
+ */
+export function getClientIp(req: Request): string {
+  const hops = req.headers.get("X-Forwarded-For")?.split(",") ?? [];
+  return hops[hops.length - 1]?.trim() || "unknown";
+}
+
+/**
+ * Counts one request against `scope:value` and rejects it over the limit.
+ * The value (IP, phone) is stored hashed. A database error lets the request
+ * through: the limits must not take the booking down with them.
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  scope: string,
+  value: string,
+  rateLimit: RateLimit
+): Promise<Rejection | null> {
+  const { data: allowed, error } = await supabase.rpc("hit_rate_limit", {
+    p_key: `${scope}:${await sha256(value)}`,
+    p_limit: rateLimit.limit,
+    p_window_seconds: rateLimit.window_seconds,
+  });
+
+  if (error) {
+    console.error("Rate limit check failed:", error);
+    return null;
+  }
+
+  return allowed === false
+    ? { status: 429, error_code: "rate_limited", error: "Trop de demandes, réessayez dans quelques minutes" }
+    : null;
+}
+
+/**
+ * Honeypot and fill time sent by the widget's contact form: `website` is a
+ * field hidden from people, `fill_time_ms` the time since the form was shown
+ */
+export function checkFormTiming(body: { website?: unknown; fill_time_ms?: unknown }): Rejection | null {
+  if (typeof body.website === "string" && body.website.trim() !== "") {
+    return { status: 400, error_code: "spam_detected", error: "Réservation refusée" };
+  }
+
+  if (typeof body.fill_time_ms !== "number" || body.fill_time_ms < MIN_FILL_TIME_MS) {
+    return { status: 400, error_code: "too_fast", error: "Formulaire envoyé trop rapidement" };
+  }
+
+  return null;
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,98 @@
+/**
+ * Special requirements of a reservation
+ *
+ * Allergens of the party, dietary regimes, high chairs, wheelchair access,
+ * occasion and seating preference, asked in step 3 of the booking widget and
+ * stored in their own reservation columns (see book_reservation) so the
+ * kitchen report of the staff dashboard can add them up. The free-text notes
+ * stay for anything else.
+ *
+ * No runtime-specific imports: this module is shared by the edge functions
+ * (Deno) and the site (Vite).
+ */
+
+// The 14 allergens to declare in the EU (regulation 1169/2011, annex II)
+export const ALLERGENS = {
+  gluten: "Gluten",
+  crustaces: "Crustacés",
+  oeufs: "Œufs",
+  poissons: "Poissons",
+  arachides: "Arachides",
+  soja: "Soja",
+  lait: "Lait",
+  fruits_a_coque: "Fruits à coque",
+  celeri: "Céleri",
+  moutarde: "Moutarde",
+  sesame: "Sésame",
+  sulfites: "Sulfites",
+  lupin: "Lupin",
+  mollusques: "Mollusques"
+} as const;
+
+export const DIETARY_REGIMES = {
+  vegetarian: "Végétarien",
+  vegan: "Vegan",
+  gluten_free: "Sans gluten",
+  pescatarian: "Pescétarien",
+  pork_free: "Sans porc"
+} as const;
+
+export const OCCASIONS = {
+  anniversaire: "Anniversaire",
+  anniversaire_mariage: "Anniversaire de mariage",
+  amoureux: "Dîner en amoureux",
+  affaires: "Repas d'affaires",
+  fete: "Autre fête"
+} as const;
+
+export const SEATING_PREFERENCES = {
+  terrasse: "Terrasse",
+  salle: "Salle"
+} as const;
+
+export type Allergen = keyof typeof ALLERGENS;
+
+export type DietaryRegime = keyof typeof DIETARY_REGIMES;
+
+export type Occasion = keyof typeof OCCASIONS;
+
+export type SeatingPreference = keyof typeof SEATING_PREFERENCES;
+
+export interface BookingRequirements {
+  allergens?: Allergen[]; // for the whole party
+  diets?: DietaryRegime[];
+  high_chairs?: number;
+  wheelchair?: boolean;
+  occasion?: Occasion | null;
+  seating_preference?: SeatingPreference | null; // tables in that zone when one is free
+}
+
+const isKey = (labels: Record<string, string>, value: unknown) =>
+  typeof value === "string" && Object.keys(labels).includes(value);
+
+/**
+ * Error message for invalid requirements, or null. Every field is optional.
+ */
+export function validateRequirements(requirements: BookingRequirements, guests: number): string | null {
+  const { allergens = [], diets = [], high_chairs = 0, wheelchair = false, occasion, seating_preference } = requirements;
+
+  if (!Array.isArray(allergens) || !allergens.every((allergen) => isKey(ALLERGENS, allergen))) {
+    return "Allergène inconnu";
+  }
+  if (!Array.isArray(diets) || !diets.every((diet) => isKey(DIETARY_REGIMES, diet))) {
+    return "Régime alimentaire inconnu";
+  }
+  if (!Number.isInteger(high_chairs) || high_chairs < 0 || high_chairs > guests) {
+    return "Nombre de chaises hautes invalide";
+  }
+  if (typeof wheelchair !== "boolean") {
+    return "Accès fauteuil roulant invalide";
+  }
+  if (occasion != null && !isKey(OCCASIONS, occasion)) {
+    return "Occasion inconnue";
+  }
+  if (seating_preference != null && !isKey(SEATING_PREFERENCES, seating_preference)) {
+    return "Préférence de placement inconnue";
+  }
+  return null;
+}
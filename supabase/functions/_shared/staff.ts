@@ -0,0 +1,34 @@
+/**
+ * Back-office access for edge functions
+ *
+ * Admin endpoints are called from the staff dashboard with the signed-in
+ * user's access token. The token is checked against Supabase Auth, then the
+ * user's role is read from staff_members with the service role client.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+
+export type StaffRole = "staff" | "manager";
+
+/**
+ * Role of the user behind the request's bearer token, or null when the
+ * token is missing, invalid or belongs to someone who is not staff
+ */
+export async function getStaffRole(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<StaffRole | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return null;
+
+  const { data: membership } = await supabase
+    .from("staff_members")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  return membership?.role ?? null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Restaurant timezone helpers
+ *
+ * Service windows are wall-clock times in the restaurant's timezone (the
+ * `timezone` setting, Europe/Paris by default), while edge functions run in
+ * UTC and browsers in the guest's own timezone. Every conversion between a
+ * restaurant date/time and an instant goes through these helpers.
+ *
+ * No runtime-specific imports: this module is shared by the edge functions
+ * (Deno) and the site (Vite).
+ */
+
+export const DEFAULT_TIMEZONE = "Europe/Paris";
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(instant: Date, timeZone: string): Record<string, number> {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/**
+ * Offset in minutes between the timezone's wall clock and UTC at an instant
+ * (e.g. 60 in Paris in winter, 120 in summer)
+ */
+export function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const p = getParts(instant, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const seconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - seconds) / 60000);
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM[:SS]) in the
+ * timezone to the matching instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset depends on the instant itself, so refine once around DST changes
+  const guess = wallClock - getTimezoneOffset(new Date(wallClock), timeZone) * 60000;
+  const offset = getTimezoneOffset(new Date(guess), timeZone);
+  return new Date(wallClock - offset * 60000);
+}
+
+/**
+ * Wall-clock date (YYYY-MM-DD) of an instant in the timezone
+ */
+export function getZonedDate(instant: Date, timeZone: string): string {
+  const p = getParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/**
+ * Wall-clock time (HH:MM) of an instant in the timezone
+ */
+export function getZonedTime(instant: Date, timeZone: string): string {
+  const p = getParts(instant, timeZone);
+  return `${String(p.hour).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`;
+}
+
+/**
+ * Instants bounding a restaurant day: [start, end)
+ * A day is 23 or 25 hours long on DST weekends.
+ */
+export function getZonedDayRange(date: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(date, "00:00", timeZone),
+    end: zonedTimeToUtc(addDays(date, 1), "00:00", timeZone),
+  };
+}
+
+/**
+ * Add calendar days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Day of week of a YYYY-MM-DD date (0 = Sunday), independent of any timezone
+ */
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
@@ -0,0 +1,72 @@
+/**
+ * Waitlist hold notifications
+ *
+ * Holds are created in the database by offer_waitlist_holds, which also runs
+ * from a trigger whenever a confirmed reservation frees covers. Edge functions
+ * that can free covers call notifyWaitlistOffers afterwards to email every
+ * guest whose new hold has not been announced yet.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { getEmailProvider } from "./messaging.ts";
+import { getEmailContext, renderHoldOfferEmail, toEmailLanguage } from "./email-templates.ts";
+
+interface WaitlistOffer {
+  id: string;
+  name: string;
+  email: string;
+  guests: number;
+  language: string;
+  hold_token: string;
+  hold_start_at: string;
+  hold_expires_at: string;
+}
+
+/**
+ * Email pending hold offers. Never throws: a failed email must not fail the
+ * request that freed the covers. `siteUrl` as for getEmailContext.
+ */
+export async function notifyWaitlistOffers(
+  supabase: SupabaseClient,
+  siteUrl: string | undefined
+): Promise<void> {
+  const emailProvider = getEmailProvider();
+  if (!emailProvider) return;
+
+  try {
+    const { data: offers } = await supabase
+      .from("waitlist_entries")
+      .select("id, name, email, guests, language, hold_token, hold_start_at, hold_expires_at")
+      .eq("status", "offered")
+      .is("hold_notified_at", null)
+      .gt("hold_expires_at", new Date().toISOString());
+
+    if (!offers || offers.length === 0) return;
+
+    const context = await getEmailContext(supabase, siteUrl);
+
+    for (const offer of offers as WaitlistOffer[]) {
+      // Claim the offer first so concurrent calls never email twice
+      const { data: claimed } = await supabase
+        .from("waitlist_entries")
+        .update({ hold_notified_at: new Date().toISOString() })
+        .eq("id", offer.id)
+        .is("hold_notified_at", null)
+        .select("id");
+
+      if (!claimed || claimed.length === 0) continue;
+
+      try {
+        const message = renderHoldOfferEmail(context, {
+          ...offer,
+          language: toEmailLanguage(offer.language),
+        });
+        await emailProvider.send({ to: offer.email, from: context.from, ...message });
+      } catch (emailError) {
+        console.error("Waitlist email failed:", emailError);
+      }
+    }
+  } catch (error) {
+    console.error("Waitlist notification error:", error);
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Handler of GET /availability (API in index.ts)
+ *
+ * Runs with the context index.ts builds from the deployment, or any other
+ * (local stack, stub client): see _shared/handler-context.ts.
+ */
+
+import type { HandlerContext } from "../_shared/handler-context.ts";
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getZonedDate,
+} from "../_shared/timezone.ts";
+import { parseMaxGroupSize } from "../_shared/group-size.ts";
+import {
+  AVAILABILITY_LIMIT_PER_IP,
+  checkOrigin,
+  checkRateLimit,
+  getClientIp,
+} from "../_shared/protection.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+};
+
+interface SlotRow {
+  service_name: string;
+  start_at: string;
+  available_capacity: number | null;
+  unavailable_reason: string | null;
+}
+
+interface CalendarRow {
+  day: string;
+  service_name: string;
+  display_name: string;
+  capacity: number;
+  remaining_covers: number;
+  is_full: boolean;
+}
+
+// Longest range a calendar request may cover
+const MAX_CALENDAR_DAYS = 62;
+
+// A service is "busy" once its best slot has this share of covers left or less
+const BUSY_SHARE = 0.25;
+
+export async function handleAvailability(
+  req: Request,
+  { supabase }: HandlerContext
+): Promise<Response> {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { data: settings } = await supabase
+      .from("settings")
+      .select("key, value")
+      .in("key", ["timezone", "max_group_size", "allowed_origins", "advance_booking_days"]);
+    const setting = (key: string): string | undefined =>
+      settings?.find((s: { key: string; value: string }) => s.key === key)?.value;
+
+    // Abuse checks (_shared/protection.ts)
+    const rejection =
+      checkOrigin(req, setting("allowed_origins")) ??
+      (await checkRateLimit(supabase, "availability:ip", getClientIp(req), AVAILABILITY_LIMIT_PER_IP));
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ error: rejection.error, error_code: rejection.error_code }),
+        {
+          status: rejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const dateParam = url.searchParams.get("date") ?? "";
+    const fromParam = url.searchParams.get("from");
+    const toParam = url.searchParams.get("to");
+    const guestsParam = url.searchParams.get("guests");
+    const isCalendar = fromParam !== null || toParam !== null;
+
+    // Restaurant timezone: service windows are wall-clock times in this zone
+    const timezone: string = setting("timezone") || DEFAULT_TIMEZONE;
+
+    // Larger parties go through a group request
+    const maxGroupSize = parseMaxGroupSize(setting("max_group_size"));
+
+    // Without parameters: the booking limits, for the guest pickers of the site
+    if (!dateParam && !isCalendar && !guestsParam) {
+      return new Response(
+        JSON.stringify({ timezone, max_group_size: maxGroupSize }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if ((!dateParam && !isCalendar) || !guestsParam) {
+      return new Response(
+        JSON.stringify({ error: "Missing date (or from/to) or guests parameter" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const guests = parseInt(guestsParam);
+    if (isNaN(guests) || guests < 1) {
+      return new Response(
+        JSON.stringify({ error: "Invalid guests count" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate date format (a restaurant calendar date, not an instant); the
+    // round trip refuses days Date rolls over, such as 2026-02-31
+    const isCalendarDate = (value: string | null): value is string =>
+      value !== null &&
+      /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+      !isNaN(Date.parse(value)) &&
+      new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value;
+    if (isCalendar ? !isCalendarDate(fromParam) || !isCalendarDate(toParam) : !isCalendarDate(dateParam)) {
+      return new Response(JSON.stringify({ error: "Invalid date format" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (guests > maxGroupSize) {
+      return new Response(
+        JSON.stringify({ error: `Invalid guests count (1-${maxGroupSize})` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const today = getZonedDate(new Date(), timezone);
+
+    // Calendar: one summary per day, clipped to the days guests can book
+    if (isCalendar) {
+      if (toParam! < fromParam! || addDays(fromParam!, MAX_CALENDAR_DAYS - 1) < toParam!) {
+        return new Response(
+          JSON.stringify({ error: `Invalid date range (at most ${MAX_CALENDAR_DAYS} days)` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const lastBookableDay = addDays(today, Number(setting("advance_booking_days")) || 30);
+      const from = fromParam! < today ? today : fromParam!;
+      const to = toParam! > lastBookableDay ? lastBookableDay : toParam!;
+
+      const days = [];
+
+      if (from <= to) {
+        const { data: rows, error: calendarError } = await supabase.rpc("get_availability_calendar", {
+          p_from: from,
+          p_to: to,
+          p_guests: guests,
+        });
+
+        if (calendarError) {
+          throw calendarError;
+        }
+
+        for (let date = from; date <= to; date = addDays(date, 1)) {
+          const services = ((rows || []) as CalendarRow[])
+            .filter((row) => row.day === date)
+            .map((row) => ({
+              name: row.service_name,
+              display_name: row.display_name,
+              remaining_covers: row.remaining_covers,
+              full: row.is_full,
+              busy: !row.is_full && row.remaining_covers <= row.capacity * BUSY_SHARE,
+            }));
+
+          const open = services.filter((service) => !service.full);
+          const status = services.length === 0
+            ? "closed"
+            : open.length === 0
+              ? "full"
+              : open.every((service) => service.busy) ? "busy" : "open";
+
+          days.push({ date, status, services });
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ from, to, timezone, days }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if date is in the past (in the restaurant's timezone)
+    if (dateParam < today) {
+      return new Response(JSON.stringify({ error: "Date is in the past" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Check closures covering this date (whole day or a single service)
+    const { data: closures } = await supabase
+      .from("closures")
+      .select("service_name")
+      .lte("start_date", dateParam)
+      .gte("end_date", dateParam);
+
+    const closedServices = new Set((closures || []).map((c) => c.service_name));
+
+    if (closedServices.has(null)) {
+      return new Response(
+        JSON.stringify({
+          date: dateParam,
+          timezone,
+          services: [],
+          message: "Restaurant fermé cette date",
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Service windows in force this day (weekly hours or a service override)
+    const { data: serviceWindows, error: swError } = await supabase.rpc("get_service_windows", {
+      p_date: dateParam,
+    });
+
+    if (swError) {
+      throw swError;
+    }
+
+    const openWindows = (serviceWindows || []).filter((sw) => !closedServices.has(sw.name));
+
+    if (openWindows.length === 0) {
+      return new Response(
+        JSON.stringify({
+          date: dateParam,
+          timezone,
+          services: [],
+          message: "Restaurant fermé ce jour",
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Slots with the same rules as book_reservation (get_slots): lead time,
+    // advance window, cutoff, covers left and a table for the party
+    const { data: slotRows, error: slotsError } = await supabase.rpc("get_slots", {
+      p_date: dateParam,
+      p_guests: guests,
+    });
+
+    if (slotsError) {
+      throw slotsError;
+    }
+
+    // One entry per open service, even without a bookable slot (waitlist)
+    const services = openWindows.map((sw) => ({
+      name: sw.name,
+      display_name: sw.display_name,
+      slots: ((slotRows || []) as SlotRow[])
+        .filter((row) => row.service_name === sw.name && row.unavailable_reason === null)
+        .map(({ start_at, available_capacity }) => ({ start_at, available_capacity })),
+    }));
+
+    return new Response(
+      JSON.stringify({
+        date: dateParam,
+        timezone,
+        services,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+}
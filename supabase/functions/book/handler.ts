@@ -0,0 +1,324 @@
+/**
+ * Handler of POST /book (API in index.ts)
+ *
+ * Runs with the context index.ts builds from the deployment, or any other
+ * (local stack, stub client): see _shared/handler-context.ts.
+ */
+
+import type { HandlerContext } from "../_shared/handler-context.ts";
+import { startGuaranteeCheckout } from "../_shared/payments.ts";
+import { getEmailContext, renderConfirmationEmail, toEmailLanguage } from "../_shared/email-templates.ts";
+import { type BookingRequirements, validateRequirements } from "../_shared/requirements.ts";
+import { normalizePhone } from "../_shared/phone.ts";
+import {
+  BOOK_LIMIT_PER_IP,
+  BOOK_LIMIT_PER_PHONE,
+  checkFormTiming,
+  checkOrigin,
+  checkRateLimit,
+  getClientIp,
+} from "../_shared/protection.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface BookingRequest extends BookingRequirements {
+  start_at: string;
+  service_name: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email?: string;
+  notes?: string;
+  hold_token?: string;
+  language?: string;
+  website?: string;
+  fill_time_ms?: number;
+  idempotency_key?: string;
+}
+
+export async function handleBook(
+  req: Request,
+  { supabase, emailProvider, paymentProvider, siteUrl }: HandlerContext
+): Promise<Response> {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const body: BookingRequest = await req.json();
+
+    const { data: originSetting } = await supabase
+      .from("settings")
+      .select("value")
+      .eq("key", "allowed_origins")
+      .maybeSingle();
+
+    // Abuse checks, cheapest first (every attempt counts against the IP)
+    const rejection =
+      checkOrigin(req, originSetting?.value) ??
+      (await checkRateLimit(supabase, "book:ip", getClientIp(req), BOOK_LIMIT_PER_IP)) ??
+      checkFormTiming(body);
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: rejection.error, error_code: rejection.error_code }),
+        {
+          status: rejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate required fields
+    const { start_at, service_name, guests, name, phone, email, notes, hold_token, language, idempotency_key } = body;
+    const { allergens, diets, high_chairs, wheelchair, occasion, seating_preference } = body;
+
+    if (!start_at || !service_name || !guests || !name || !phone) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Champs requis manquants" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate service name
+    if (!["midi", "soir"].includes(service_name)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Service invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate guests (the max_group_size limit is enforced by the database)
+    if (!Number.isInteger(guests) || guests < 1) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Nombre de couverts invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate date
+    const startDate = new Date(start_at);
+    if (isNaN(startDate.getTime())) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Date invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Past dates, lead time, advance window and cutoff are slot rules:
+    // book_reservation checks them against get_slots, like /availability
+
+    // Stored in E.164, numbers without a country code are French
+    const normalizedPhone = normalizePhone(phone);
+    if (!normalizedPhone) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Numéro de téléphone invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate email if provided
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Email invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate special requirements (lists of known keys, high chairs up to the party)
+    const requirementsError = validateRequirements(body, guests);
+    if (requirementsError) {
+      return new Response(
+        JSON.stringify({ ok: false, error: requirementsError }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Idempotency key: a UUID from the widget (any short token from other clients)
+    if (idempotency_key !== undefined && !/^[A-Za-z0-9-]{8,64}$/.test(idempotency_key)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Clé de réservation invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const phoneRejection = await checkRateLimit(supabase, "book:phone", normalizedPhone, BOOK_LIMIT_PER_PHONE);
+    if (phoneRejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: phoneRejection.error, error_code: phoneRejection.error_code }),
+        {
+          status: phoneRejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Call the book_reservation function (handles locking and anti-double-booking)
+    const { data, error } = await supabase.rpc("book_reservation", {
+      p_service_name: service_name,
+      p_start_at: start_at,
+      p_guests: guests,
+      p_name: name.trim(),
+      p_phone: normalizedPhone,
+      p_email: email?.trim() || null,
+      p_notes: notes?.trim() || null,
+      p_hold_token: hold_token || null,
+      p_language: toEmailLanguage(language),
+      p_idempotency_key: idempotency_key || null,
+      p_allergens: allergens ?? [],
+      p_diets: diets ?? [],
+      p_high_chairs: high_chairs ?? 0,
+      p_wheelchair: wheelchair ?? false,
+      p_occasion: occasion || null,
+      p_seating_preference: seating_preference || null,
+    });
+
+    if (error) {
+      console.error("Database error:", error);
+      return new Response(
+        JSON.stringify({ ok: false, error: "Erreur lors de la réservation" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The RPC function returns an array with one row
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: result?.error || "Réservation impossible",
+          error_code: result?.error_code || undefined,
+        }),
+        {
+          status: ["too_many_reservations", "duplicate_booking", "no_show_blocked"].includes(result?.error_code) ? 409 : 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Guarantee rule (see _shared/payments.ts): the reservation waits in
+    // pending_payment for the card step; /payments confirms it and sends the email
+    if (result.payment_required) {
+      if (!paymentProvider) {
+        await supabase.from("reservations").update({ status: "cancelled" }).eq("id", result.reservation_id);
+        return new Response(
+          JSON.stringify({ ok: false, error: "Ce créneau ne peut pas être réservé en ligne, appelez-nous" }),
+          {
+            status: 503,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const context = await getEmailContext(supabase, siteUrl);
+      const payment = await startGuaranteeCheckout(
+        supabase,
+        paymentProvider,
+        result.reservation_id,
+        `${context.siteUrl}/reserver?payment=${result.reservation_id}`,
+        email?.trim() || null
+      );
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          code: result.code,
+          reservation_id: result.reservation_id,
+          payment,
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Send confirmation email if email provided (optional, needs an email provider);
+    // a replayed attempt already sent it
+    if (email && emailProvider && !result.replayed) {
+      try {
+        const { data: reservation, error: reservationError } = await supabase
+          .from("reservations")
+          .select("code, name, service_name, start_at, end_at, guests, language")
+          .eq("id", result.reservation_id)
+          .single();
+
+        if (reservationError) {
+          throw reservationError;
+        }
+
+        const context = await getEmailContext(supabase, siteUrl);
+        const message = renderConfirmationEmail(context, {
+          ...reservation,
+          language: toEmailLanguage(reservation.language),
+        });
+
+        await emailProvider.send({ to: email.trim(), from: context.from, ...message });
+      } catch (emailError) {
+        // Log but don't fail the reservation
+        console.error("Email sending failed:", emailError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        code: result.code,
+        reservation_id: result.reservation_id,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Edge Function: POST /cancel
+ *
+ * Cancels a reservation on behalf of the guest, identified by the
+ * reservation code plus the phone number used to book. A card guarantee is
+ * released, or charged when the cancellation comes too late (see
+ * queue_guarantee_action in the schema). Requests go through the origin
+ * check and the per-IP and per-phone limits of _shared/protection.ts first,
+ * shared with /reservation; an attempt with a wrong code counts too.
+ *
+ * Request body:
+ * {
+ *   code: string,
+ *   phone: string
+ * }
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   charged?: { kind: "card_hold" | "deposit", amount: number }
+ *     (late cancellation: the card hold was charged, the deposit kept),
+ *   error?: string,
+ *   error_code?: "origin_not_allowed" | "rate_limited"
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+import { getPaymentProvider, processPaymentActions } from "../_shared/payments.ts";
+import { normalizePhone } from "../_shared/phone.ts";
+import {
+  MANAGE_LIMIT_PER_IP,
+  MANAGE_LIMIT_PER_PHONE,
+  checkOrigin,
+  checkRateLimit,
+  getClientIp,
+} from "../_shared/protection.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface CancellationRequest {
+  code: string;
+  phone: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const body: CancellationRequest = await req.json();
+    const { code, phone } = body;
+
+    // Initialize Supabase client with service role key for RPC
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: originSetting } = await supabase
+      .from("settings")
+      .select("value")
+      .eq("key", "allowed_origins")
+      .maybeSingle();
+
+    // Abuse checks, same counters as /reservation (a wrong code counts too)
+    const rejection =
+      checkOrigin(req, originSetting?.value) ??
+      (await checkRateLimit(supabase, "manage:ip", getClientIp(req), MANAGE_LIMIT_PER_IP));
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: rejection.error, error_code: rejection.error_code }),
+        {
+          status: rejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!code || !phone) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Code et téléphone requis" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const phoneRejection = await checkRateLimit(
+      supabase,
+      "manage:phone",
+      normalizePhone(phone) ?? phone,
+      MANAGE_LIMIT_PER_PHONE
+    );
+    if (phoneRejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: phoneRejection.error, error_code: phoneRejection.error_code }),
+        {
+          status: phoneRejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data, error } = await supabase.rpc("cancel_reservation", {
+      p_code: code,
+      p_phone: normalizePhone(phone) ?? phone, // as stored by /book
+    });
+
+    if (error) {
+      console.error("Database error:", error);
+      return new Response(
+        JSON.stringify({ ok: false, error: "Erreur lors de l'annulation" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The RPC function returns an array with one row
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: result?.error || "Annulation impossible",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Freed covers are offered to the waitlist by a database trigger
+    await notifyWaitlistOffers(supabase, siteUrl);
+
+    // The guarantee action was queued by a trigger too; the notifications job
+    // retries it if this fails
+    const paymentProvider = getPaymentProvider();
+    if (paymentProvider) {
+      try {
+        await processPaymentActions(supabase, paymentProvider);
+      } catch (paymentError) {
+        console.error("Payment processing failed:", paymentError);
+      }
+    }
+
+    const charged = result.charged_kind
+      ? { kind: result.charged_kind, amount: Number(result.charged_amount) }
+      : undefined;
+
+    return new Response(JSON.stringify({ ok: true, charged }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
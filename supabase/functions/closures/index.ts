@@ -0,0 +1,258 @@
+/**
+ * Edge Function: GET/POST/PATCH/DELETE /closures
+ *
+ * Back-office management of exceptional closures. Requires the bearer token
+ * of a staff member with the `manager` role.
+ *
+ * A closure covers a date range (end_date inclusive) and either the whole
+ * day (service_name null) or a single service ("midi" or "soir").
+ *
+ * GET: upcoming closures (end_date >= today)
+ *
+ * POST request body:
+ * {
+ *   start_date: string (YYYY-MM-DD),
+ *   end_date?: string (YYYY-MM-DD, defaults to start_date),
+ *   service_name?: "midi" | "soir" | null,
+ *   reason?: string
+ * }
+ *
+ * PATCH request body: { id: string, ...fields to change }
+ *
+ * DELETE query params:
+ * - id: string
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   closure?: Closure,
+ *   closures?: Closure[],
+ *   error?: string,
+ *   conflicts?: Array<{ reservation_id, code, service_name, start_at, guests, name }>
+ * }
+ *
+ * A closure that would fall on confirmed upcoming reservations is refused
+ * with status 409 and the list of conflicting reservations, which must be
+ * moved or cancelled first.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { DEFAULT_TIMEZONE, getZonedDate } from "../_shared/timezone.ts";
+import { getStaffRole } from "../_shared/staff.ts";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+};
+
+interface ClosureInput {
+  start_date: string;
+  end_date: string;
+  service_name: string | null;
+  reason: string | null;
+}
+
+function validateClosure(closure: ClosureInput): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(closure.start_date) || !dateRegex.test(closure.end_date)) {
+    return "Dates invalides (format AAAA-MM-JJ)";
+  }
+
+  if (closure.end_date < closure.start_date) {
+    return "La date de fin doit être après la date de début";
+  }
+
+  if (closure.service_name !== null && !["midi", "soir"].includes(closure.service_name)) {
+    return "Service invalide";
+  }
+
+  return null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["GET", "POST", "PATCH", "DELETE"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Managers only
+    const role = await getStaffRole(req, supabase);
+    if (role !== "manager") {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Accès réservé aux responsables" }),
+        {
+          status: role ? 403 : 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // List upcoming closures
+    if (req.method === "GET") {
+      const { data: timezoneSetting } = await supabase
+        .from("settings")
+        .select("value")
+        .eq("key", "timezone")
+        .maybeSingle();
+      const today = getZonedDate(new Date(), timezoneSetting?.value || DEFAULT_TIMEZONE);
+
+      const { data: closures, error } = await supabase
+        .from("closures")
+        .select("*")
+        .gte("end_date", today)
+        .order("start_date");
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(JSON.stringify({ ok: true, closures }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Delete: reopening never orphans a reservation
+    if (req.method === "DELETE") {
+      const id = new URL(req.url).searchParams.get("id");
+      if (!id) {
+        return new Response(JSON.stringify({ ok: false, error: "Paramètre id requis" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { error } = await supabase.from("closures").delete().eq("id", id);
+
+      if (error) {
+        throw error;
+      }
+
+      // Reopened services may have guests on the waitlist
+      await supabase.rpc("offer_all_waitlist_holds");
+      await notifyWaitlistOffers(supabase, siteUrl);
+
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Create or update
+    const body = await req.json();
+    let closure: ClosureInput;
+
+    if (req.method === "PATCH") {
+      const { data: existing } = await supabase
+        .from("closures")
+        .select("start_date, end_date, service_name, reason")
+        .eq("id", body.id ?? "")
+        .maybeSingle();
+
+      if (!existing) {
+        return new Response(JSON.stringify({ ok: false, error: "Fermeture introuvable" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      closure = {
+        start_date: body.start_date ?? existing.start_date,
+        end_date: body.end_date ?? existing.end_date,
+        service_name: body.service_name !== undefined ? body.service_name : existing.service_name,
+        reason: body.reason !== undefined ? body.reason : existing.reason,
+      };
+    } else {
+      closure = {
+        start_date: body.start_date,
+        end_date: body.end_date || body.start_date,
+        service_name: body.service_name || null,
+        reason: body.reason || null,
+      };
+    }
+
+    const validationError = validateClosure(closure);
+    if (validationError) {
+      return new Response(JSON.stringify({ ok: false, error: validationError }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Refuse closures that would fall on confirmed reservations; the check
+    // and the write hold the booking locks of the closed services
+    const { data: result, error } = await supabase
+      .rpc("save_closure", {
+        p_id: req.method === "PATCH" ? body.id : null,
+        p_start_date: closure.start_date,
+        p_end_date: closure.end_date,
+        p_service_name: closure.service_name,
+        p_reason: closure.reason,
+      })
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const { closure: saved, conflicts } = result;
+
+    if (conflicts.length > 0) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: `${conflicts.length} réservation(s) confirmée(s) sur cette période. Déplacez-les ou annulez-les avant de fermer.`,
+          conflicts,
+        }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Deleted since it was read above
+    if (!saved) {
+      return new Response(JSON.stringify({ ok: false, error: "Fermeture introuvable" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // An edited closure may reopen dates with guests on the waitlist
+    if (req.method === "PATCH") {
+      await supabase.rpc("offer_all_waitlist_holds");
+      await notifyWaitlistOffers(supabase, siteUrl);
+    }
+
+    return new Response(JSON.stringify({ ok: true, closure: saved }), {
+      status: req.method === "POST" ? 201 : 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
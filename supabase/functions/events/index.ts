@@ -0,0 +1,390 @@
+/**
+ * Edge Function: GET/POST /events
+ *
+ * GET lists the published events that have not started yet, with the seats
+ * left; the /evenements pages use it to show sold out events and to drop the
+ * ones that took place since the last build. POST books seats for an event
+ * (book_event): the party must fit the event's seats, the covers left in its
+ * service that evening and a free table. Both go through the abuse checks of
+ * _shared/protection.ts, like /availability and /book.
+ *
+ * Query params (GET):
+ * - slug?: string (a single event)
+ *
+ * Response (GET):
+ * {
+ *   timezone: string,
+ *   events: [
+ *     {
+ *       id, slug, title, date: string, start_at: string (ISO), end_at: string (ISO),
+ *       capacity: number, price_per_person: number | null, seats_left: number,
+ *       sold_out: boolean
+ *     }
+ *   ]
+ * }
+ *
+ * Request body (POST):
+ * {
+ *   event_id: string,
+ *   guests: number,
+ *   name: string,
+ *   phone: string,
+ *   email?: string,
+ *   notes?: string,
+ *   language?: "fr" | "en",
+ *   website?: string (honeypot, must stay empty),
+ *   fill_time_ms: number (time spent on the form),
+ *   idempotency_key?: string (generated by the form per booking attempt)
+ * }
+ *
+ * Response (POST):
+ * {
+ *   ok: boolean,
+ *   code?: string,
+ *   reservation_id?: string,
+ *   payment?: { kind: "card_hold" | "deposit", amount: number, checkout_url: string }
+ *     (guarantee rule: the reservation is confirmed once the guest completes
+ *     the card step at checkout_url, see /payments),
+ *   error?: string,
+ *   error_code?: "sold_out" | "origin_not_allowed" | "rate_limited" | "spam_detected"
+ *     | "too_fast" | "too_many_reservations" | "duplicate_booking" | "no_show_blocked"
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { DEFAULT_TIMEZONE } from "../_shared/timezone.ts";
+import { getEmailProvider } from "../_shared/messaging.ts";
+import { getPaymentProvider, startGuaranteeCheckout } from "../_shared/payments.ts";
+import { getEmailContext, renderConfirmationEmail, toEmailLanguage } from "../_shared/email-templates.ts";
+import { normalizePhone } from "../_shared/phone.ts";
+import {
+  AVAILABILITY_LIMIT_PER_IP,
+  BOOK_LIMIT_PER_IP,
+  BOOK_LIMIT_PER_PHONE,
+  checkFormTiming,
+  checkOrigin,
+  checkRateLimit,
+  getClientIp,
+} from "../_shared/protection.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+interface EventBookingRequest {
+  event_id: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email?: string;
+  notes?: string;
+  language?: string;
+  website?: string;
+  fill_time_ms?: number;
+  idempotency_key?: string;
+}
+
+interface UpcomingEventRow {
+  id: string;
+  slug: string;
+  title: string;
+  date: string;
+  start_at: string;
+  end_at: string;
+  capacity: number;
+  price_per_person: number | string | null; // NUMERIC comes back as a string
+  seats_left: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["GET", "POST"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for RPC
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: settings } = await supabase
+      .from("settings")
+      .select("key, value")
+      .in("key", ["timezone", "allowed_origins"]);
+    const setting = (key: string): string | undefined =>
+      settings?.find((s: { key: string; value: string }) => s.key === key)?.value;
+
+    if (req.method === "GET") {
+      const rejection =
+        checkOrigin(req, setting("allowed_origins")) ??
+        (await checkRateLimit(supabase, "events:ip", getClientIp(req), AVAILABILITY_LIMIT_PER_IP));
+
+      if (rejection) {
+        return new Response(
+          JSON.stringify({ error: rejection.error, error_code: rejection.error_code }),
+          {
+            status: rejection.status,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const slug = new URL(req.url).searchParams.get("slug");
+
+      const { data: rows, error } = await supabase.rpc("get_upcoming_events", {
+        p_slug: slug || null,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const events = ((rows || []) as UpcomingEventRow[]).map((row) => ({
+        ...row,
+        price_per_person: row.price_per_person === null ? null : Number(row.price_per_person),
+        sold_out: row.seats_left === 0,
+      }));
+
+      return new Response(
+        JSON.stringify({ timezone: setting("timezone") || DEFAULT_TIMEZONE, events }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const body: EventBookingRequest = await req.json();
+
+    // Abuse checks, cheapest first (every attempt counts against the IP)
+    const rejection =
+      checkOrigin(req, setting("allowed_origins")) ??
+      (await checkRateLimit(supabase, "book:ip", getClientIp(req), BOOK_LIMIT_PER_IP)) ??
+      checkFormTiming(body);
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: rejection.error, error_code: rejection.error_code }),
+        {
+          status: rejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate required fields
+    const { event_id, guests, name, phone, email, notes, language, idempotency_key } = body;
+
+    if (!event_id || !guests || !name || !phone) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Champs requis manquants" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate guests (the max_group_size limit is enforced by the database)
+    if (!Number.isInteger(guests) || guests < 1) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Nombre de places invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Stored in E.164, numbers without a country code are French
+    const normalizedPhone = normalizePhone(phone);
+    if (!normalizedPhone) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Numéro de téléphone invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate email if provided
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Email invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (idempotency_key !== undefined && !/^[A-Za-z0-9-]{8,64}$/.test(idempotency_key)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Clé de réservation invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const phoneRejection = await checkRateLimit(supabase, "book:phone", normalizedPhone, BOOK_LIMIT_PER_PHONE);
+    if (phoneRejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: phoneRejection.error, error_code: phoneRejection.error_code }),
+        {
+          status: phoneRejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Seats, covers and tables are checked under the service lock
+    const { data, error } = await supabase.rpc("book_event", {
+      p_event_id: event_id,
+      p_guests: guests,
+      p_name: name.trim(),
+      p_phone: normalizedPhone,
+      p_email: email?.trim() || null,
+      p_notes: notes?.trim() || null,
+      p_language: toEmailLanguage(language),
+      p_idempotency_key: idempotency_key || null,
+    });
+
+    if (error) {
+      console.error("Database error:", error);
+      return new Response(
+        JSON.stringify({ ok: false, error: "Erreur lors de la réservation" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The RPC function returns an array with one row
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: result?.error || "Réservation impossible",
+          error_code: result?.error_code || undefined,
+        }),
+        {
+          status: ["sold_out", "too_many_reservations", "duplicate_booking", "no_show_blocked"].includes(result?.error_code) ? 409 : 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Guarantee rule (see _shared/payments.ts): the reservation waits in
+    // pending_payment for the card step; /payments confirms it and sends the email
+    if (result.payment_required) {
+      const paymentProvider = getPaymentProvider();
+      if (!paymentProvider) {
+        await supabase.from("reservations").update({ status: "cancelled" }).eq("id", result.reservation_id);
+        return new Response(
+          JSON.stringify({ ok: false, error: "Cet événement ne peut pas être réservé en ligne, appelez-nous" }),
+          {
+            status: 503,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: event, error: eventError } = await supabase
+        .from("events")
+        .select("slug")
+        .eq("id", event_id)
+        .single();
+
+      if (eventError) {
+        throw eventError;
+      }
+
+      const context = await getEmailContext(supabase, siteUrl);
+      const payment = await startGuaranteeCheckout(
+        supabase,
+        paymentProvider,
+        result.reservation_id,
+        `${context.siteUrl}/evenements/${event.slug}?payment=${result.reservation_id}`,
+        email?.trim() || null
+      );
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          code: result.code,
+          reservation_id: result.reservation_id,
+          payment,
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Confirmation email with the event's name; a replayed attempt already sent it
+    const emailProvider = getEmailProvider();
+    if (email && emailProvider && !result.replayed) {
+      try {
+        const { data: reservation, error: reservationError } = await supabase
+          .from("reservations")
+          .select("code, name, service_name, start_at, end_at, guests, language, events(title)")
+          .eq("id", result.reservation_id)
+          .single();
+
+        if (reservationError) {
+          throw reservationError;
+        }
+
+        const context = await getEmailContext(supabase, siteUrl);
+        const message = renderConfirmationEmail(context, {
+          ...reservation,
+          language: toEmailLanguage(reservation.language),
+          event_title: reservation.events?.title ?? null,
+        });
+
+        await emailProvider.send({ to: email.trim(), from: context.from, ...message });
+      } catch (emailError) {
+        // Log but don't fail the reservation
+        console.error("Email sending failed:", emailError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        code: result.code,
+        reservation_id: result.reservation_id,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
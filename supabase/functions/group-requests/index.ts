@@ -0,0 +1,424 @@
+/**
+ * Edge Function: POST/GET/PATCH /group-requests
+ *
+ * Requests for parties above the online limit (`max_group_size` setting) and
+ * privatisations of the whole venue. Guests send a request from /groupes; it
+ * stays pending until staff accept it, which books a confirmed reservation
+ * blocking tables and capacity, or decline it. The guest is emailed either way.
+ *
+ * POST request body (public):
+ * {
+ *   event_type: "anniversaire" | "famille" | "entreprise" | "association" | "autre",
+ *   is_privatisation?: boolean,
+ *   guests: number (above max_group_size unless is_privatisation),
+ *   preferred_dates: string[] (1 to 3 dates, YYYY-MM-DD),
+ *   service_name?: "midi" | "soir" | null (null = no preference),
+ *   budget_per_person?: number (euros),
+ *   menu_choice?: "bouillon" | "planches" | "buffet" | "a_definir",
+ *   message?: string,
+ *   name: string,
+ *   phone: string,
+ *   email: string,
+ *   language?: "fr" | "en" (language of the reply email, default "fr")
+ * }
+ *
+ * GET (staff): pending requests, oldest first
+ *
+ * PATCH request body (staff):
+ * { id: string, action: "accept", service_name: "midi" | "soir", start_at: string (ISO) }
+ * { id: string, action: "decline", reason?: string }
+ * A privatisation is booked for the whole service of the start_at date.
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   request_id?: string,
+ *   requests?: GroupRequest[],
+ *   code?: string (reservation code, on accept),
+ *   error?: string
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { DEFAULT_TIMEZONE, getZonedDate } from "../_shared/timezone.ts";
+import { GROUP_EVENT_TYPES, GROUP_MENU_CHOICES, parseMaxGroupSize } from "../_shared/group-size.ts";
+import { getStaffRole } from "../_shared/staff.ts";
+import { normalizePhone } from "../_shared/phone.ts";
+import { getEmailProvider } from "../_shared/messaging.ts";
+import {
+  getEmailContext,
+  renderConfirmationEmail,
+  renderGroupDeclinedEmail,
+  toEmailLanguage,
+} from "../_shared/email-templates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
+};
+
+interface GroupRequestInput {
+  event_type: string;
+  is_privatisation?: boolean;
+  guests: number;
+  preferred_dates: string[];
+  service_name?: string | null;
+  budget_per_person?: number | null;
+  menu_choice?: string;
+  message?: string;
+  name: string;
+  phone: string;
+  email: string;
+  language?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["GET", "POST", "PATCH"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    if (req.method === "POST") {
+      const body: GroupRequestInput = await req.json();
+      const { event_type, guests, preferred_dates, name, phone, email, message, language } = body;
+      const isPrivatisation = body.is_privatisation === true;
+      const serviceName = body.service_name || null;
+      const menuChoice = body.menu_choice || "a_definir";
+      const budget = body.budget_per_person ?? null;
+
+      if (!event_type || !guests || !preferred_dates || !name || !phone || !email) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Champs requis manquants" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (!(GROUP_EVENT_TYPES as readonly string[]).includes(event_type)) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Type d'événement invalide" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (!(GROUP_MENU_CHOICES as readonly string[]).includes(menuChoice)) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Formule invalide" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (serviceName !== null && !["midi", "soir"].includes(serviceName)) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Service invalide" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (budget !== null && (!Number.isInteger(budget) || budget < 1)) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Budget invalide" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: settings } = await supabase
+        .from("settings")
+        .select("key, value")
+        .in("key", ["max_group_size", "timezone"]);
+      const setting = (key: string): string | undefined =>
+        settings?.find((s: { key: string; value: string }) => s.key === key)?.value;
+      const maxGroupSize = parseMaxGroupSize(setting("max_group_size"));
+      const today = getZonedDate(new Date(), setting("timezone") || DEFAULT_TIMEZONE);
+
+      // The largest service caps a privatisation
+      const { data: windows } = await supabase
+        .from("service_windows")
+        .select("capacity")
+        .eq("is_active", true);
+      const venueCapacity = Math.max(0, ...(windows || []).map((w: { capacity: number }) => w.capacity));
+
+      if (!Number.isInteger(guests) || guests < 1 || guests > venueCapacity) {
+        return new Response(
+          JSON.stringify({ ok: false, error: `Nombre de personnes invalide (maximum ${venueCapacity})` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (!isPrivatisation && guests <= maxGroupSize) {
+        return new Response(
+          JSON.stringify({ ok: false, error: `Jusqu'à ${maxGroupSize} personnes, réservez directement en ligne` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+      if (
+        !Array.isArray(preferred_dates) ||
+        preferred_dates.length < 1 ||
+        preferred_dates.length > 3 ||
+        preferred_dates.some((date) => typeof date !== "string" || !dateRegex.test(date) || date < today)
+      ) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Indiquez de 1 à 3 dates à venir" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // Stored in E.164, numbers without a country code are French
+      const normalizedPhone = normalizePhone(phone);
+      if (!normalizedPhone) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Numéro de téléphone invalide" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Email invalide" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: created, error } = await supabase
+        .from("group_requests")
+        .insert({
+          event_type,
+          is_privatisation: isPrivatisation,
+          guests,
+          preferred_dates: [...new Set(preferred_dates)].sort(),
+          service_name: serviceName,
+          budget_per_person: budget,
+          menu_choice: menuChoice,
+          message: message?.trim() || null,
+          name: name.trim(),
+          phone: normalizedPhone,
+          email: email.trim(),
+          language: toEmailLanguage(language),
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(JSON.stringify({ ok: true, request_id: created.id }), {
+        status: 201,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Listing and deciding requests is for staff
+    const role = await getStaffRole(req, supabase);
+    if (!role) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Accès réservé à l'équipe" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (req.method === "GET") {
+      const { data: requests, error } = await supabase
+        .from("group_requests")
+        .select("*")
+        .eq("status", "pending")
+        .order("created_at");
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(JSON.stringify({ ok: true, requests }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body = await req.json();
+
+    if (!body.id || !["accept", "decline"].includes(body.action)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Paramètres id et action requis" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const emailProvider = getEmailProvider();
+
+    if (body.action === "decline") {
+      const { data: declined, error } = await supabase
+        .from("group_requests")
+        .update({
+          status: "declined",
+          decline_reason: body.reason?.trim() || null,
+          decided_at: new Date().toISOString(),
+        })
+        .eq("id", body.id)
+        .eq("status", "pending")
+        .select("name, email, guests, preferred_dates, is_privatisation, decline_reason, language")
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!declined) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Demande introuvable ou déjà traitée" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (emailProvider) {
+        try {
+          const context = await getEmailContext(supabase, siteUrl);
+          const message = renderGroupDeclinedEmail(context, {
+            ...declined,
+            language: toEmailLanguage(declined.language),
+          });
+          await emailProvider.send({ to: declined.email, from: context.from, ...message });
+        } catch (emailError) {
+          // Log but don't undo the decision
+          console.error("Email sending failed:", emailError);
+        }
+      }
+
+      return new Response(JSON.stringify({ ok: true, request_id: body.id }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!["midi", "soir"].includes(body.service_name) || isNaN(new Date(body.start_at).getTime())) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Service et date requis pour accepter" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Books the reservation (handles locking, capacity and tables)
+    const { data, error } = await supabase.rpc("accept_group_request", {
+      p_request_id: body.id,
+      p_service_name: body.service_name,
+      p_start_at: body.start_at,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: result?.error || "Impossible d'accepter la demande",
+        }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (emailProvider) {
+      try {
+        const { data: reservation, error: reservationError } = await supabase
+          .from("reservations")
+          .select("code, name, email, service_name, start_at, end_at, guests, language")
+          .eq("id", result.reservation_id)
+          .single();
+
+        if (reservationError) {
+          throw reservationError;
+        }
+
+        const context = await getEmailContext(supabase, siteUrl);
+        const message = renderConfirmationEmail(context, {
+          ...reservation,
+          language: toEmailLanguage(reservation.language),
+        });
+
+        await emailProvider.send({ to: reservation.email, from: context.from, ...message });
+      } catch (emailError) {
+        // Log but don't fail the reservation
+        console.error("Email sending failed:", emailError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, request_id: body.id, code: result.code }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
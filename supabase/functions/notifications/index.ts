@@ -0,0 +1,130 @@
+/**
+ * Edge Function: POST /notifications
+ *
+ * Scheduled job, called every 15 minutes by pg_cron (see README). Sends the
+ * reminders and thank-you messages that are due (see _shared/notifications.ts),
+ * releases reservations whose card guarantee was not given in time, offers
+ * covers from expired waitlist holds to the next guests, carries out the
+ * guarantee charges and releases still queued (see _shared/payments.ts) and
+ * purges old rate limit counters.
+ *
+ * Requires the service role key as bearer token.
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   sent?: number,
+ *   failed?: number,
+ *   holds_offered?: number,
+ *   payments_expired?: number,
+ *   payments_captured?: number,
+ *   payments_released?: number,
+ *   payments_failed?: number,
+ *   error?: string
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { getEmailProvider, getSmsProvider } from "../_shared/messaging.ts";
+import { sendScheduledNotifications } from "../_shared/notifications.ts";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+import { getPaymentProvider, type PaymentRunResult, processPaymentActions } from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+
+    // Only the scheduler may trigger sends
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseKey}`) {
+      return new Response(JSON.stringify({ ok: false, error: "Non autorisé" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { sent, failed } = await sendScheduledNotifications(
+      supabase,
+      { email: getEmailProvider(), sms: getSmsProvider() },
+      siteUrl
+    );
+
+    // Unpaid guarantees: the covers are already free, the waitlist trigger offers them
+    const { data: paymentsExpired, error: expireError } = await supabase.rpc("expire_pending_payments");
+
+    if (expireError) {
+      throw expireError;
+    }
+
+    // Expired holds go to the next guest here: /availability only reads
+    const { data: holdsOffered, error: holdsError } = await supabase.rpc("offer_all_waitlist_holds");
+
+    if (holdsError) {
+      throw holdsError;
+    }
+
+    await notifyWaitlistOffers(supabase, siteUrl);
+
+    // Charges and releases left over from the dashboard, /cancel or a provider outage
+    const paymentProvider = getPaymentProvider();
+    let payments: PaymentRunResult = { captured: 0, released: 0, failed: 0 };
+    if (paymentProvider) {
+      payments = await processPaymentActions(supabase, paymentProvider);
+    }
+
+    // Counters of the public endpoints' rate limits (_shared/protection.ts)
+    const { error: purgeError } = await supabase.rpc("purge_rate_limits");
+
+    if (purgeError) {
+      console.error("Rate limit purge failed:", purgeError);
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        sent,
+        failed,
+        holds_offered: holdsOffered ?? 0,
+        payments_expired: paymentsExpired ?? 0,
+        payments_captured: payments.captured,
+        payments_released: payments.released,
+        payments_failed: payments.failed,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,233 @@
+/**
+ * Edge Function: POST/PATCH /payments
+ *
+ * Card guarantees and deposits (see _shared/payments.ts). The booking widgets
+ * call POST when the guest comes back from the card step: once the provider
+ * reports the card held or the deposit paid, the reservation is confirmed
+ * (confirm_reservation_payment) and the confirmation email goes out. A guest
+ * back after the payment deadline gets the reservation released and the
+ * payment undone.
+ *
+ * The staff dashboard calls PATCH after changing a reservation's status, so
+ * the charge of a no-show or the release after a visit is made right away
+ * rather than on the next notifications run.
+ *
+ * POST request body (public):
+ * { reservation_id: string }
+ *
+ * PATCH (staff): no body
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   code?: string,
+ *   checkout_url?: string (card step not completed, the guest can try again),
+ *   captured?: number, released?: number, failed?: number (PATCH),
+ *   error?: string,
+ *   error_code?: "payment_incomplete" | "origin_not_allowed" | "rate_limited"
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { getStaffRole } from "../_shared/staff.ts";
+import { getEmailProvider } from "../_shared/messaging.ts";
+import { getEmailContext, renderConfirmationEmail, toEmailLanguage } from "../_shared/email-templates.ts";
+import { getPaymentProvider, processPaymentActions } from "../_shared/payments.ts";
+import { BOOK_LIMIT_PER_IP, checkOrigin, checkRateLimit, getClientIp } from "../_shared/protection.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, PATCH, OPTIONS",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["POST", "PATCH"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Paiement en ligne non configuré" }),
+        {
+          status: 503,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (req.method === "PATCH") {
+      const role = await getStaffRole(req, supabase);
+      if (!role) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Accès réservé à l'équipe" }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const result = await processPaymentActions(supabase, provider);
+
+      return new Response(
+        JSON.stringify({ ok: true, ...result }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: settings } = await supabase
+      .from("settings")
+      .select("key, value")
+      .eq("key", "allowed_origins");
+
+    const rejection =
+      checkOrigin(req, settings?.[0]?.value) ??
+      (await checkRateLimit(supabase, "payments:ip", getClientIp(req), BOOK_LIMIT_PER_IP));
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: rejection.error, error_code: rejection.error_code }),
+        {
+          status: rejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { reservation_id } = await req.json();
+
+    if (!reservation_id || !/^[0-9a-f-]{36}$/i.test(reservation_id)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Réservation introuvable" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: payment } = await supabase
+      .from("payments")
+      .select("status, provider_ref, checkout_url")
+      .eq("reservation_id", reservation_id)
+      .maybeSingle();
+
+    if (!payment || !payment.provider_ref) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Réservation introuvable" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Still waiting for the card: the guest may have left the card step
+    if (["pending", "expired"].includes(payment.status) && !(await provider.isAuthorized(payment.provider_ref))) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Le paiement n'a pas abouti",
+          error_code: "payment_incomplete",
+          checkout_url: payment.status === "pending" ? payment.checkout_url : undefined,
+        }),
+        {
+          status: 402,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data, error } = await supabase.rpc("confirm_reservation_payment", {
+      p_reservation_id: reservation_id,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    // The RPC function returns an array with one row
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      // Released too late: undo the payment now
+      await processPaymentActions(supabase, provider);
+
+      return new Response(
+        JSON.stringify({ ok: false, code: result?.code, error: result?.error || "Réservation introuvable" }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Confirmation email, held back by /book and /events until now; a guest
+    // coming back a second time already got it
+    const emailProvider = getEmailProvider();
+    if (payment.status === "pending" && emailProvider) {
+      try {
+        const { data: reservation, error: reservationError } = await supabase
+          .from("reservations")
+          .select("code, name, email, service_name, start_at, end_at, guests, language, events(title)")
+          .eq("id", reservation_id)
+          .single();
+
+        if (reservationError) {
+          throw reservationError;
+        }
+
+        if (reservation.email) {
+          const context = await getEmailContext(supabase, siteUrl);
+          const message = renderConfirmationEmail(context, {
+            ...reservation,
+            language: toEmailLanguage(reservation.language),
+            event_title: reservation.events?.title ?? null,
+          });
+
+          await emailProvider.send({ to: reservation.email, from: context.from, ...message });
+        }
+      } catch (emailError) {
+        // Log but don't fail the confirmation
+        console.error("Email sending failed:", emailError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, code: result.code }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,309 @@
+/**
+ * Edge Function: GET /reservation, PATCH /reservation
+ *
+ * Lets a guest look up and modify their own reservation. The guest is
+ * identified by the reservation code plus the phone number used to book.
+ * Requests go through the origin check and the per-IP and per-phone limits of
+ * _shared/protection.ts first; a lookup with a wrong code counts too.
+ *
+ * GET query params:
+ * - code: string (6 characters)
+ * - phone: string
+ *
+ * GET response:
+ * {
+ *   ok: boolean,
+ *   reservation?: {
+ *     code: string,
+ *     service_name: "midi" | "soir",
+ *     start_at: string (ISO),
+ *     end_at: string (ISO),
+ *     guests: number,
+ *     name: string,
+ *     status: "confirmed" | "cancelled" | "completed" | "no_show",
+ *     guarantee_kind: "card_hold" | "deposit" | null,
+ *     guarantee_amount: number | null,
+ *     free_cancellation_until: string (ISO) | null
+ *       (card hold or deposit in force: charged on a later cancellation)
+ *   },
+ *   error?: string,
+ *   error_code?: "origin_not_allowed" | "rate_limited"
+ * }
+ *
+ * PATCH request body:
+ * {
+ *   code: string,
+ *   phone: string,
+ *   start_at: string (ISO datetime),
+ *   service_name: "midi" | "soir",
+ *   guests: number
+ * }
+ *
+ * PATCH response:
+ * {
+ *   ok: boolean,
+ *   code?: string,
+ *   reservation_id?: string,
+ *   error?: string,
+ *   error_code?: "origin_not_allowed" | "rate_limited"
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+import { normalizePhone } from "../_shared/phone.ts";
+import {
+  MANAGE_LIMIT_PER_IP,
+  MANAGE_LIMIT_PER_PHONE,
+  checkOrigin,
+  checkRateLimit,
+  getClientIp,
+} from "../_shared/protection.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, PATCH, OPTIONS",
+};
+
+interface ModificationRequest {
+  code: string;
+  phone: string;
+  start_at: string;
+  service_name: string;
+  guests: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "PATCH") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for RPC
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: originSetting } = await supabase
+      .from("settings")
+      .select("value")
+      .eq("key", "allowed_origins")
+      .maybeSingle();
+
+    // Abuse checks (every attempt counts against the IP, a wrong code too)
+    const rejection =
+      checkOrigin(req, originSetting?.value) ??
+      (await checkRateLimit(supabase, "manage:ip", getClientIp(req), MANAGE_LIMIT_PER_IP));
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: rejection.error, error_code: rejection.error_code }),
+        {
+          status: rejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const code = url.searchParams.get("code");
+      const phone = url.searchParams.get("phone");
+
+      if (!code || !phone) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Code et téléphone requis" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const phoneRejection = await checkRateLimit(
+        supabase,
+        "manage:phone",
+        normalizePhone(phone) ?? phone,
+        MANAGE_LIMIT_PER_PHONE
+      );
+      if (phoneRejection) {
+        return new Response(
+          JSON.stringify({ ok: false, error: phoneRejection.error, error_code: phoneRejection.error_code }),
+          {
+            status: phoneRejection.status,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data, error } = await supabase.rpc("get_reservation", {
+        p_code: code,
+        p_phone: normalizePhone(phone) ?? phone, // as stored by /book
+      });
+
+      if (error) {
+        console.error("Database error:", error);
+        return new Response(
+          JSON.stringify({ ok: false, error: "Erreur lors de la recherche" }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const reservation = data?.[0];
+
+      if (!reservation) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Réservation introuvable" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify({ ok: true, reservation }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: ModificationRequest = await req.json();
+    const { code, phone, start_at, service_name, guests } = body;
+
+    if (!code || !phone || !start_at || !service_name || !guests) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Champs requis manquants" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate service name
+    if (!["midi", "soir"].includes(service_name)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Service invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate guests (the max_group_size limit is enforced by the database)
+    if (!Number.isInteger(guests) || guests < 1) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Nombre de couverts invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate date
+    const startDate = new Date(start_at);
+    if (isNaN(startDate.getTime())) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Date invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Past dates, lead time, advance window and cutoff are slot rules:
+    // modify_reservation checks them against get_slots, like /availability
+
+    const phoneRejection = await checkRateLimit(
+      supabase,
+      "manage:phone",
+      normalizePhone(phone) ?? phone,
+      MANAGE_LIMIT_PER_PHONE
+    );
+    if (phoneRejection) {
+      return new Response(
+        JSON.stringify({ ok: false, error: phoneRejection.error, error_code: phoneRejection.error_code }),
+        {
+          status: phoneRejection.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Call the modify_reservation function (same locking as book_reservation)
+    const { data, error } = await supabase.rpc("modify_reservation", {
+      p_code: code,
+      p_phone: normalizePhone(phone) ?? phone,
+      p_service_name: service_name,
+      p_start_at: start_at,
+      p_guests: guests,
+    });
+
+    if (error) {
+      console.error("Database error:", error);
+      return new Response(
+        JSON.stringify({ ok: false, error: "Erreur lors de la modification" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The RPC function returns an array with one row
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: result?.error || "Modification impossible",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Covers freed on the previous slot are offered to the waitlist by a database trigger
+    await notifyWaitlistOffers(supabase, siteUrl);
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        code: result.code,
+        reservation_id: result.reservation_id,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
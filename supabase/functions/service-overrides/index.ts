@@ -0,0 +1,331 @@
+/**
+ * Edge Function: GET/POST/PATCH/DELETE /service-overrides
+ *
+ * Back-office management of exceptional hours on a single date (events,
+ * holidays). Requires the bearer token of a staff member with the `manager`
+ * role.
+ *
+ * An override replaces that date's weekly service window of the same name
+ * (longer evening, smaller capacity), or opens the service on a day it is
+ * normally closed. /availability, /book and the site's hours table use it;
+ * closures still take precedence.
+ *
+ * GET: upcoming overrides (date >= today)
+ *
+ * POST request body:
+ * {
+ *   date: string (YYYY-MM-DD),
+ *   name: "midi" | "soir",
+ *   display_name?: string (defaults to "Déjeuner" / "Dîner"),
+ *   start_time: string (HH:MM),
+ *   end_time: string (HH:MM),
+ *   last_reservation_time: string (HH:MM),
+ *   capacity?: number,
+ *   slot_interval?: number (minutes),
+ *   meal_duration?: number (minutes),
+ *   reason?: string (shown to guests)
+ * }
+ *
+ * PATCH request body: { id: string, ...fields to change }
+ *
+ * DELETE query params:
+ * - id: string
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   service_override?: ServiceOverride,
+ *   service_overrides?: ServiceOverride[],
+ *   error?: string,
+ *   conflicts?: Array<{ reservation_id, code, service_name, start_at, guests, name }>
+ * }
+ *
+ * A change that would leave confirmed upcoming reservations outside the
+ * service (shorter hours, other date or service, deletion back to the weekly
+ * hours) is refused with status 409 and the list of conflicting reservations.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { DEFAULT_TIMEZONE, getZonedDate } from "../_shared/timezone.ts";
+import { getStaffRole } from "../_shared/staff.ts";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+};
+
+interface ServiceOverrideInput {
+  date: string;
+  name: string;
+  display_name: string;
+  start_time: string;
+  end_time: string;
+  last_reservation_time: string;
+  capacity: number;
+  slot_interval: number;
+  meal_duration: number;
+  reason: string | null;
+}
+
+const overrideFields: (keyof ServiceOverrideInput)[] = [
+  "date",
+  "name",
+  "display_name",
+  "start_time",
+  "end_time",
+  "last_reservation_time",
+  "capacity",
+  "slot_interval",
+  "meal_duration",
+  "reason",
+];
+
+const defaultDisplayNames: Record<string, string> = {
+  midi: "Déjeuner",
+  soir: "Dîner",
+};
+
+function validateServiceOverride(so: ServiceOverrideInput): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(so.date) || isNaN(Date.parse(so.date))) {
+    return "Date invalide (format AAAA-MM-JJ)";
+  }
+
+  if (!["midi", "soir"].includes(so.name)) {
+    return "Service invalide";
+  }
+
+  if (!so.display_name) {
+    return "Nom affiché requis";
+  }
+
+  const timeRegex = /^\d{2}:\d{2}(:\d{2})?$/;
+  if (![so.start_time, so.end_time, so.last_reservation_time].every((t) => timeRegex.test(t))) {
+    return "Horaires invalides (format HH:MM)";
+  }
+
+  // Zero-padded HH:MM compare correctly as strings (the database returns HH:MM:SS)
+  const [start, last, end] = [so.start_time, so.last_reservation_time, so.end_time].map((t) => t.slice(0, 5));
+  if (start > last || last > end) {
+    return "Le dernier créneau doit être entre l'ouverture et la fermeture";
+  }
+
+  if (![so.capacity, so.slot_interval, so.meal_duration].every((n) => Number.isInteger(n) && n > 0)) {
+    return "Capacité, intervalle et durée doivent être des entiers positifs";
+  }
+
+  return null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["GET", "POST", "PATCH", "DELETE"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Managers only
+    const role = await getStaffRole(req, supabase);
+    if (role !== "manager") {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Accès réservé aux responsables" }),
+        {
+          status: role ? 403 : 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // List upcoming overrides
+    if (req.method === "GET") {
+      const { data: timezoneSetting } = await supabase
+        .from("settings")
+        .select("value")
+        .eq("key", "timezone")
+        .maybeSingle();
+      const today = getZonedDate(new Date(), timezoneSetting?.value || DEFAULT_TIMEZONE);
+
+      const { data: serviceOverrides, error } = await supabase
+        .from("service_overrides")
+        .select("*")
+        .gte("date", today)
+        .order("date")
+        .order("start_time");
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(JSON.stringify({ ok: true, service_overrides: serviceOverrides }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body = req.method === "DELETE"
+      ? { id: new URL(req.url).searchParams.get("id") }
+      : await req.json();
+
+    // Existing row for PATCH and DELETE
+    let existing: ServiceOverrideInput | null = null;
+    if (req.method !== "POST") {
+      const { data } = await supabase
+        .from("service_overrides")
+        .select(overrideFields.join(", "))
+        .eq("id", body.id ?? "")
+        .maybeSingle();
+
+      if (!data) {
+        return new Response(JSON.stringify({ ok: false, error: "Horaire exceptionnel introuvable" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      existing = data as ServiceOverrideInput;
+    }
+
+    let serviceOverride: ServiceOverrideInput | null = null;
+    if (req.method !== "DELETE") {
+      serviceOverride = {
+        capacity: 100,
+        slot_interval: 30,
+        meal_duration: 60,
+        reason: null,
+        ...existing,
+      } as ServiceOverrideInput;
+
+      for (const field of overrideFields) {
+        if (body[field] !== undefined) {
+          (serviceOverride as unknown as Record<string, unknown>)[field] = body[field];
+        }
+      }
+
+      if (!serviceOverride.display_name) {
+        serviceOverride.display_name = defaultDisplayNames[serviceOverride.name] ?? "";
+      }
+      serviceOverride.reason = serviceOverride.reason || null;
+
+      const validationError = validateServiceOverride(serviceOverride);
+      if (validationError) {
+        return new Response(JSON.stringify({ ok: false, error: validationError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // Reservations of the date must fit the new hours. Moving the override to
+    // another date or service, or deleting it, brings back the weekly hours
+    // of the date it leaves.
+    const conflictChecks = [];
+
+    if (serviceOverride) {
+      conflictChecks.push({
+        p_date: serviceOverride.date,
+        p_name: serviceOverride.name,
+        p_start_time: serviceOverride.start_time,
+        p_last_reservation_time: serviceOverride.last_reservation_time,
+      });
+    }
+
+    if (existing && (!serviceOverride ||
+      serviceOverride.date !== existing.date ||
+      serviceOverride.name !== existing.name)) {
+      conflictChecks.push({ p_date: existing.date, p_name: existing.name });
+    }
+
+    const conflicts = [];
+    for (const params of conflictChecks) {
+      const { data, error: conflictsError } = await supabase.rpc("get_service_override_conflicts", params);
+
+      if (conflictsError) {
+        throw conflictsError;
+      }
+
+      conflicts.push(...(data || []));
+    }
+
+    if (conflicts.length > 0) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: `${conflicts.length} réservation(s) confirmée(s) ne rentrent plus dans ce service. Déplacez-les ou annulez-les avant de modifier.`,
+          conflicts,
+        }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (req.method === "DELETE") {
+      const { error } = await supabase.from("service_overrides").delete().eq("id", body.id);
+
+      if (error) {
+        throw error;
+      }
+
+      // The weekly hours may have room for guests on the waitlist
+      await supabase.rpc("offer_all_waitlist_holds");
+      await notifyWaitlistOffers(supabase, siteUrl);
+
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const query = req.method === "PATCH"
+      ? supabase.from("service_overrides").update(serviceOverride).eq("id", body.id)
+      : supabase.from("service_overrides").insert(serviceOverride);
+
+    const { data: saved, error } = await query.select().single();
+
+    if (error) {
+      // Unique (date, name)
+      if (error.code === "23505") {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Ce service a déjà des horaires exceptionnels ce jour" }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    // More capacity or longer hours may fit guests on the waitlist
+    await supabase.rpc("offer_all_waitlist_holds");
+    await notifyWaitlistOffers(supabase, siteUrl);
+
+    return new Response(JSON.stringify({ ok: true, service_override: saved }), {
+      status: req.method === "POST" ? 201 : 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
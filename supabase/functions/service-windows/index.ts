@@ -0,0 +1,295 @@
+/**
+ * Edge Function: GET/POST/PATCH/DELETE /service-windows
+ *
+ * Back-office management of the weekly opening hours (one row per service
+ * and day of week). Requires the bearer token of a staff member with the
+ * `manager` role.
+ *
+ * GET: all service windows, ordered by day and start time
+ *
+ * POST request body:
+ * {
+ *   name: "midi" | "soir",
+ *   display_name: string,
+ *   dow: number (0 = Sunday),
+ *   start_time: string (HH:MM),
+ *   end_time: string (HH:MM),
+ *   last_reservation_time: string (HH:MM),
+ *   capacity?: number,
+ *   slot_interval?: number (minutes),
+ *   meal_duration?: number (minutes),
+ *   is_active?: boolean
+ * }
+ *
+ * PATCH request body: { id: string, ...fields to change }
+ *
+ * DELETE query params:
+ * - id: string
+ *
+ * Response:
+ * {
+ *   ok: boolean,
+ *   service_window?: ServiceWindow,
+ *   service_windows?: ServiceWindow[],
+ *   error?: string,
+ *   conflicts?: Array<{ reservation_id, code, service_name, start_at, guests, name }>
+ * }
+ *
+ * A change that would leave confirmed upcoming reservations outside the
+ * service (shorter hours, deactivation, deletion, other day) is refused with
+ * status 409 and the list of conflicting reservations.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { getStaffRole } from "../_shared/staff.ts";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+};
+
+interface ServiceWindowInput {
+  name: string;
+  display_name: string;
+  dow: number;
+  start_time: string;
+  end_time: string;
+  last_reservation_time: string;
+  capacity: number;
+  slot_interval: number;
+  meal_duration: number;
+  is_active: boolean;
+}
+
+const windowFields: (keyof ServiceWindowInput)[] = [
+  "name",
+  "display_name",
+  "dow",
+  "start_time",
+  "end_time",
+  "last_reservation_time",
+  "capacity",
+  "slot_interval",
+  "meal_duration",
+  "is_active",
+];
+
+function validateServiceWindow(sw: ServiceWindowInput): string | null {
+  if (!["midi", "soir"].includes(sw.name)) {
+    return "Service invalide";
+  }
+
+  if (!sw.display_name) {
+    return "Nom affiché requis";
+  }
+
+  if (!Number.isInteger(sw.dow) || sw.dow < 0 || sw.dow > 6) {
+    return "Jour invalide (0 = dimanche, 6 = samedi)";
+  }
+
+  const timeRegex = /^\d{2}:\d{2}(:\d{2})?$/;
+  if (![sw.start_time, sw.end_time, sw.last_reservation_time].every((t) => timeRegex.test(t))) {
+    return "Horaires invalides (format HH:MM)";
+  }
+
+  // Zero-padded HH:MM compare correctly as strings (the database returns HH:MM:SS)
+  const [start, last, end] = [sw.start_time, sw.last_reservation_time, sw.end_time].map((t) => t.slice(0, 5));
+  if (start > last || last > end) {
+    return "Le dernier créneau doit être entre l'ouverture et la fermeture";
+  }
+
+  if (![sw.capacity, sw.slot_interval, sw.meal_duration].every((n) => Number.isInteger(n) && n > 0)) {
+    return "Capacité, intervalle et durée doivent être des entiers positifs";
+  }
+
+  return null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["GET", "POST", "PATCH", "DELETE"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Managers only
+    const role = await getStaffRole(req, supabase);
+    if (role !== "manager") {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Accès réservé aux responsables" }),
+        {
+          status: role ? 403 : 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // List all service windows
+    if (req.method === "GET") {
+      const { data: serviceWindows, error } = await supabase
+        .from("service_windows")
+        .select("*")
+        .order("dow")
+        .order("start_time");
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(JSON.stringify({ ok: true, service_windows: serviceWindows }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body = req.method === "DELETE"
+      ? { id: new URL(req.url).searchParams.get("id") }
+      : await req.json();
+
+    // Existing row for PATCH and DELETE
+    let existing: ServiceWindowInput | null = null;
+    if (req.method !== "POST") {
+      const { data } = await supabase
+        .from("service_windows")
+        .select(windowFields.join(", "))
+        .eq("id", body.id ?? "")
+        .maybeSingle();
+
+      if (!data) {
+        return new Response(JSON.stringify({ ok: false, error: "Service introuvable" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      existing = data as ServiceWindowInput;
+    }
+
+    let serviceWindow: ServiceWindowInput | null = null;
+    if (req.method !== "DELETE") {
+      serviceWindow = {
+        capacity: 100,
+        slot_interval: 30,
+        meal_duration: 60,
+        is_active: true,
+        ...existing,
+      } as ServiceWindowInput;
+
+      for (const field of windowFields) {
+        if (body[field] !== undefined) {
+          (serviceWindow as unknown as Record<string, unknown>)[field] = body[field];
+        }
+      }
+
+      const validationError = validateServiceWindow(serviceWindow);
+      if (validationError) {
+        return new Response(JSON.stringify({ ok: false, error: validationError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // Reservations booked under the current window must still fit once edited.
+    // Moving the window to another service or day, or deleting it, removes it.
+    if (existing) {
+      const keepsSlot = serviceWindow !== null &&
+        serviceWindow.name === existing.name &&
+        serviceWindow.dow === existing.dow;
+
+      const { data: conflicts, error: conflictsError } = await supabase.rpc(
+        "get_service_window_conflicts",
+        {
+          p_name: existing.name,
+          p_dow: existing.dow,
+          p_start_time: (keepsSlot ? serviceWindow! : existing).start_time,
+          p_last_reservation_time: (keepsSlot ? serviceWindow! : existing).last_reservation_time,
+          p_is_active: keepsSlot ? serviceWindow!.is_active : false,
+        }
+      );
+
+      if (conflictsError) {
+        throw conflictsError;
+      }
+
+      if (conflicts && conflicts.length > 0) {
+        return new Response(
+          JSON.stringify({
+            ok: false,
+            error: `${conflicts.length} réservation(s) confirmée(s) ne rentrent plus dans ce service. Déplacez-les ou annulez-les avant de modifier.`,
+            conflicts,
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (req.method === "DELETE") {
+      const { error } = await supabase.from("service_windows").delete().eq("id", body.id);
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const query = req.method === "PATCH"
+      ? supabase.from("service_windows").update(serviceWindow).eq("id", body.id)
+      : supabase.from("service_windows").insert(serviceWindow);
+
+    const { data: saved, error } = await query.select().single();
+
+    if (error) {
+      // Unique (name, dow)
+      if (error.code === "23505") {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Ce service existe déjà pour ce jour" }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    // More capacity or longer hours may fit guests on the waitlist
+    await supabase.rpc("offer_all_waitlist_holds");
+    await notifyWaitlistOffers(supabase, siteUrl);
+
+    return new Response(JSON.stringify({ ok: true, service_window: saved }), {
+      status: req.method === "POST" ? 201 : 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
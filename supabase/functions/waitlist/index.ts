@@ -0,0 +1,268 @@
+/**
+ * Edge Function: POST /waitlist, GET /waitlist
+ *
+ * Waitlist for full services. When covers free up, the database offers them
+ * to waiting guests as time-limited holds, announced by email with a link to
+ * /reserver?hold=<token>. The hold is then booked through POST /book with
+ * `hold_token`.
+ *
+ * POST request body:
+ * {
+ *   date: string (YYYY-MM-DD),
+ *   service_name: "midi" | "soir",
+ *   guests: number,
+ *   name: string,
+ *   phone: string,
+ *   email: string,
+ *   language?: "fr" | "en" (language of the offer email, default "fr")
+ * }
+ *
+ * POST response:
+ * {
+ *   ok: boolean,
+ *   entry_id?: string,
+ *   error?: string
+ * }
+ *
+ * GET query params:
+ * - hold: string (hold token from the email)
+ *
+ * GET response:
+ * {
+ *   ok: boolean,
+ *   timezone?: string,
+ *   hold?: {
+ *     date: string,
+ *     service_name: "midi" | "soir",
+ *     guests: number,
+ *     name: string,
+ *     phone: string,
+ *     email: string,
+ *     status: "waiting" | "offered" | "booked" | "expired" | "cancelled",
+ *     hold_start_at: string (ISO),
+ *     hold_expires_at: string (ISO)
+ *   },
+ *   error?: string
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { DEFAULT_TIMEZONE } from "../_shared/timezone.ts";
+import { toEmailLanguage } from "../_shared/email-templates.ts";
+import { normalizePhone } from "../_shared/phone.ts";
+import { notifyWaitlistOffers } from "../_shared/waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+interface WaitlistRequest {
+  date: string;
+  service_name: string;
+  guests: number;
+  name: string;
+  phone: string;
+  email: string;
+  language?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for RPC
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL"); // links of the emails
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    if (req.method === "GET") {
+      const token = new URL(req.url).searchParams.get("hold");
+
+      if (!token) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Paramètre hold requis" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data, error } = await supabase.rpc("get_waitlist_hold", {
+        p_token: token,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      const hold = data?.[0];
+
+      if (!hold) {
+        return new Response(
+          JSON.stringify({ ok: false, error: "Place introuvable" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: timezoneSetting } = await supabase
+        .from("settings")
+        .select("value")
+        .eq("key", "timezone")
+        .maybeSingle();
+
+      return new Response(
+        JSON.stringify({
+          ok: true,
+          timezone: timezoneSetting?.value || DEFAULT_TIMEZONE,
+          hold,
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const body: WaitlistRequest = await req.json();
+    const { date, service_name, guests, name, phone, email, language } = body;
+
+    if (!date || !service_name || !guests || !name || !phone || !email) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Champs requis manquants" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Date invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!["midi", "soir"].includes(service_name)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Service invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The max_group_size limit is enforced by the database
+    if (!Number.isInteger(guests) || guests < 1) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Nombre de couverts invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Stored in E.164, numbers without a country code are French
+    const normalizedPhone = normalizePhone(phone);
+    if (!normalizedPhone) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Numéro de téléphone invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Offers are sent by email, so it is required here
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Email invalide" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data, error } = await supabase.rpc("join_waitlist", {
+      p_date: date,
+      p_service_name: service_name,
+      p_guests: guests,
+      p_name: name.trim(),
+      p_phone: normalizedPhone,
+      p_email: email.trim(),
+      p_language: toEmailLanguage(language),
+    });
+
+    if (error) {
+      console.error("Database error:", error);
+      return new Response(
+        JSON.stringify({ ok: false, error: "Erreur lors de l'inscription" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The RPC function returns an array with one row
+    const result = data?.[0];
+
+    if (!result || !result.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: result?.error || "Inscription impossible",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Joining may immediately get a hold if covers are already free
+    await notifyWaitlistOffers(supabase, siteUrl);
+
+    return new Response(
+      JSON.stringify({ ok: true, entry_id: result.entry_id }),
+      {
+        status: 201,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Erreur serveur" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
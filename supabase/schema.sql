@@ -37,12 +37,114 @@ CREATE TABLE IF NOT EXISTS service_windows (
     UNIQUE(name, dow)
 );
 
--- Closures (exceptional closing dates)
+-- Closures (exceptional closing dates, whole day or a single service)
 CREATE TABLE IF NOT EXISTS closures (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    date DATE NOT NULL UNIQUE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL, -- inclusive, equal to start_date for a single day
+    service_name TEXT, -- NULL = whole day, otherwise 'midi' or 'soir' only
     reason TEXT,
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_date >= start_date)
+);
+
+-- Service overrides (exceptional hours on a single date: events, holidays).
+-- An override replaces that day's service window of the same name, or adds
+-- the service if it is not open that day. Closures still win.
+CREATE TABLE IF NOT EXISTS service_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    date DATE NOT NULL,
+    name TEXT NOT NULL, -- 'midi' or 'soir'
+    display_name TEXT NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    last_reservation_time TIME NOT NULL,
+    capacity INTEGER NOT NULL DEFAULT 100,
+    slot_interval INTEGER NOT NULL DEFAULT 30,
+    meal_duration INTEGER NOT NULL DEFAULT 60,
+    reason TEXT, -- shown to guests, e.g. 'Saint-Valentin'
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(date, name)
+);
+
+-- Events (ticketed evenings listed on /evenements). Seats are reservations
+-- with event_id set, counted against the service's covers like any booking.
+-- Past events are archived by their date, not by their status.
+CREATE TABLE IF NOT EXISTS events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'), -- page URL /evenements/<slug>
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL, -- before start_time when the event ends after midnight
+    service_name TEXT NOT NULL DEFAULT 'soir', -- service whose covers the seats use
+    capacity INTEGER NOT NULL CHECK (capacity > 0), -- seats on sale
+    price_per_person NUMERIC(8, 2) CHECK (price_per_person >= 0), -- NULL = free entry
+    set_menu TEXT, -- optional set menu, one course per line
+    badge TEXT,
+    image TEXT, -- path under public/, e.g. 'assets/verres-vin.webp'
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'cancelled')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Dishes and drinks of /menu, read at build time (src/lib/menu.ts). Section
+-- titles and order are defined on the site.
+CREATE TABLE IF NOT EXISTS menu_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    section TEXT NOT NULL CHECK (section IN ('entrees', 'plats', 'bouillon', 'desserts', 'vins', 'boissons')),
+    name TEXT NOT NULL,
+    description TEXT,
+    price NUMERIC(8, 2) CHECK (price >= 0), -- NULL = market price
+    services TEXT[] NOT NULL DEFAULT ARRAY['midi', 'soir'] CHECK (
+        cardinality(services) > 0 AND services <@ ARRAY['midi', 'soir']
+    ),
+    -- The 14 EU allergens contained in the dish
+    allergens TEXT[] NOT NULL DEFAULT '{}' CHECK (allergens <@ ARRAY[
+        'gluten', 'crustaces', 'oeufs', 'poissons', 'arachides', 'soja', 'lait',
+        'fruits_a_coque', 'celeri', 'moutarde', 'sesame', 'sulfites', 'lupin', 'mollusques'
+    ]),
+    diets TEXT[] NOT NULL DEFAULT '{}' CHECK (diets <@ ARRAY['vegetarian', 'vegan', 'gluten_free']),
+    badge TEXT, -- e.g. 'Signature'
+    is_available BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE hides the dish (out of season) without deleting it
+    position INTEGER NOT NULL DEFAULT 0, -- order within the section
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Daily lunch board ("carte du midi"): the day's dishes and formule, published
+-- by staff from /admin and read at runtime by /menu and the homepage
+CREATE TABLE IF NOT EXISTS lunch_boards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    date DATE NOT NULL UNIQUE,
+    -- [{"name": ..., "description": ... | null, "price": ... | null}], price NULL = formule only
+    dishes JSONB NOT NULL CHECK (jsonb_typeof(dishes) = 'array' AND jsonb_array_length(dishes) > 0),
+    formule_price NUMERIC(8, 2) CHECK (formule_price >= 0),
+    formule_description TEXT, -- e.g. 'Entrée + bouillon + dessert'
+    note TEXT, -- shown under the board, e.g. 'Dessert : tarte aux abricots'
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Guest profiles: one per phone number (also matched by email), linked from
+-- their reservations. The counters are kept by refresh_guest_stats, the tags
+-- and notes by staff from /admin.
+CREATE TABLE IF NOT EXISTS guests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    phone TEXT NOT NULL UNIQUE, -- E.164, as on reservations
+    email TEXT, -- lower case
+    name TEXT NOT NULL, -- name of the latest booking
+    tags TEXT[] NOT NULL DEFAULT '{}', -- e.g. 'vip', 'allergie', 'habitué'
+    notes TEXT,
+    visit_count INTEGER NOT NULL DEFAULT 0, -- completed reservations
+    covers_count INTEGER NOT NULL DEFAULT 0, -- covers of those visits
+    last_visit_at TIMESTAMPTZ,
+    no_show_count INTEGER NOT NULL DEFAULT 0,
+    cancellation_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Reservations
@@ -52,16 +154,171 @@ CREATE TABLE IF NOT EXISTS reservations (
     service_name TEXT NOT NULL,
     start_at TIMESTAMPTZ NOT NULL,
     end_at TIMESTAMPTZ NOT NULL,
-    guests INTEGER NOT NULL CHECK (guests > 0 AND guests <= 20),
+    guests INTEGER NOT NULL CHECK (guests > 0), -- online bookings up to the max_group_size setting
     name TEXT NOT NULL,
-    phone TEXT NOT NULL,
+    phone TEXT NOT NULL, -- E.164 (normalize_phone)
     email TEXT,
     notes TEXT,
-    status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'cancelled', 'completed', 'no_show')),
+    language TEXT NOT NULL DEFAULT 'fr' CHECK (language IN ('fr', 'en')), -- language of the guest's emails
+    -- pending_payment: waiting for the card guarantee or deposit (see payments)
+    status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'pending_payment', 'cancelled', 'completed', 'no_show')),
+    payment_expires_at TIMESTAMPTZ, -- pending_payment only: covers and tables are held until then
+    idempotency_key TEXT UNIQUE, -- sent by the widget per booking attempt, so a retry returns this reservation
+    event_id UUID REFERENCES events(id), -- seats booked for an event (see book_event)
+    guest_id UUID REFERENCES guests(id), -- set on insert (link_reservation_guest)
+    -- Special requirements (supabase/functions/_shared/requirements.ts), for the kitchen report
+    allergens TEXT[] NOT NULL DEFAULT '{}' CHECK (allergens <@ ARRAY[
+        'gluten', 'crustaces', 'oeufs', 'poissons', 'arachides', 'soja', 'lait',
+        'fruits_a_coque', 'celeri', 'moutarde', 'sesame', 'sulfites', 'lupin', 'mollusques'
+    ]), -- for the whole party
+    diets TEXT[] NOT NULL DEFAULT '{}' CHECK (diets <@ ARRAY['vegetarian', 'vegan', 'gluten_free', 'pescatarian', 'pork_free']),
+    high_chairs INTEGER NOT NULL DEFAULT 0 CHECK (high_chairs BETWEEN 0 AND guests),
+    wheelchair BOOLEAN NOT NULL DEFAULT FALSE,
+    occasion TEXT CHECK (occasion IN ('anniversaire', 'anniversaire_mariage', 'amoureux', 'affaires', 'fete')),
+    seating_preference TEXT CHECK (seating_preference IN ('terrasse', 'salle')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Staff members (Supabase Auth users allowed into the back-office)
+CREATE TABLE IF NOT EXISTS staff_members (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    display_name TEXT,
+    role TEXT NOT NULL DEFAULT 'staff' CHECK (role IN ('staff', 'manager')),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Waitlist (guests waiting for covers to free up on a full date/service)
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    date DATE NOT NULL,
+    service_name TEXT NOT NULL,
+    guests INTEGER NOT NULL CHECK (guests > 0),
+    name TEXT NOT NULL,
+    phone TEXT NOT NULL, -- E.164
+    email TEXT NOT NULL,
+    language TEXT NOT NULL DEFAULT 'fr' CHECK (language IN ('fr', 'en')),
+    status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+    -- Hold: covers set aside on one slot for this guest until hold_expires_at
+    hold_token TEXT UNIQUE,
+    hold_start_at TIMESTAMPTZ,
+    hold_end_at TIMESTAMPTZ,
+    hold_expires_at TIMESTAMPTZ,
+    hold_notified_at TIMESTAMPTZ,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Group and privatisation requests (parties above max_group_size, or the
+-- whole venue). Staff accept a request into a reservation or decline it.
+CREATE TABLE IF NOT EXISTS group_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    is_privatisation BOOLEAN NOT NULL DEFAULT FALSE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('anniversaire', 'famille', 'entreprise', 'association', 'autre')),
+    guests INTEGER NOT NULL CHECK (guests > 0),
+    preferred_dates DATE[] NOT NULL CHECK (cardinality(preferred_dates) BETWEEN 1 AND 3),
+    service_name TEXT, -- NULL = no preference, otherwise 'midi' or 'soir'
+    budget_per_person INTEGER CHECK (budget_per_person > 0), -- euros
+    menu_choice TEXT NOT NULL DEFAULT 'a_definir' CHECK (menu_choice IN ('bouillon', 'planches', 'buffet', 'a_definir')),
+    message TEXT,
+    name TEXT NOT NULL,
+    phone TEXT NOT NULL, -- E.164
+    email TEXT NOT NULL,
+    language TEXT NOT NULL DEFAULT 'fr' CHECK (language IN ('fr', 'en')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+    decline_reason TEXT,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+    decided_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Notifications sent to guests about a reservation (reminders, thank-you
+-- messages). One row per reservation, kind and channel: the row is claimed
+-- before sending so a message is never sent twice.
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('reminder', 'thank_you')),
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(reservation_id, kind, channel)
+);
+
+-- Card guarantee or deposit of a reservation, when a guarantee rule applies
+-- (guarantee_rules setting). The payment provider holds the card or takes the
+-- deposit; a no-show or a late cancellation charges it, a visit or a
+-- cancellation within policy releases it (see queue_guarantee_action and
+-- supabase/functions/_shared/payments.ts).
+CREATE TABLE IF NOT EXISTS payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reservation_id UUID NOT NULL UNIQUE REFERENCES reservations(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('card_hold', 'deposit')), -- charged on no-show / paid when booking
+    amount NUMERIC(8, 2) NOT NULL CHECK (amount > 0), -- euros, for the whole party
+    rule TEXT, -- name of the guarantee rule that applied
+    provider TEXT, -- 'stripe', 'fake'
+    provider_ref TEXT, -- checkout session at the provider
+    checkout_url TEXT, -- card step for the guest, while pending
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending', -- waiting for the guest's card
+        'authorized', -- card held, deposit paid
+        'capture_pending', 'captured', -- no-show or late cancellation: charge queued, done (a deposit is kept, also after the visit)
+        'release_pending', 'released', -- hold no longer needed: release queued, done (a deposit is refunded)
+        'expired', -- card step not completed in time
+        'failed' -- the provider refused the charge or release, see error
+    )),
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Request counters for the public endpoints (/book, /availability), one row
+-- per key and fixed window. Keys hold a hash of the IP or phone number, never
+-- the value itself; old windows are purged by the notifications job.
+CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT NOT NULL, -- 'book:ip:<sha-256>', 'book:phone:<sha-256>', 'availability:ip:<sha-256>'
+    window_start TIMESTAMPTZ NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (key, window_start)
+);
+
+-- Tables of the dining room, terrace and bar
+CREATE TABLE IF NOT EXISTS restaurant_tables (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    label TEXT NOT NULL UNIQUE, -- 'S1', 'T4', 'G1'...
+    zone TEXT NOT NULL CHECK (zone IN ('terrasse', 'salle', 'bar')),
+    seats INTEGER NOT NULL CHECK (seats > 0),
+    is_active BOOLEAN DEFAULT TRUE,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Tables that can be pushed together for larger parties
+CREATE TABLE IF NOT EXISTS table_combinations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    label TEXT NOT NULL UNIQUE, -- 'S1+S2'
+    table_ids UUID[] NOT NULL CHECK (cardinality(table_ids) >= 2), -- restaurant_tables ids
+    seats INTEGER NOT NULL CHECK (seats > 0), -- seats once combined, not always the sum
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tables given to a reservation or set aside for a waitlist hold. Rows stay
+-- after a cancellation or an expired hold; only confirmed reservations and
+-- active holds occupy their tables.
+CREATE TABLE IF NOT EXISTS table_assignments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    table_id UUID NOT NULL REFERENCES restaurant_tables(id) ON DELETE CASCADE,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE,
+    waitlist_entry_id UUID REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (num_nonnulls(reservation_id, waitlist_entry_id) = 1)
+);
+
 -- =====================================================
 -- INDEXES
 -- =====================================================
@@ -70,8 +327,20 @@ CREATE INDEX IF NOT EXISTS idx_reservations_start_at ON reservations(start_at);
 CREATE INDEX IF NOT EXISTS idx_reservations_service ON reservations(service_name);
 CREATE INDEX IF NOT EXISTS idx_reservations_status ON reservations(status);
 CREATE INDEX IF NOT EXISTS idx_reservations_code ON reservations(code);
-CREATE INDEX IF NOT EXISTS idx_closures_date ON closures(date);
+CREATE INDEX IF NOT EXISTS idx_reservations_phone ON reservations(phone, start_at);
+CREATE INDEX IF NOT EXISTS idx_closures_dates ON closures(start_date, end_date);
 CREATE INDEX IF NOT EXISTS idx_service_windows_dow ON service_windows(dow);
+CREATE INDEX IF NOT EXISTS idx_service_overrides_date ON service_overrides(date);
+CREATE INDEX IF NOT EXISTS idx_events_date ON events(date);
+CREATE INDEX IF NOT EXISTS idx_menu_items_section ON menu_items(section, position);
+CREATE INDEX IF NOT EXISTS idx_reservations_event ON reservations(event_id);
+CREATE INDEX IF NOT EXISTS idx_reservations_guest ON reservations(guest_id);
+CREATE INDEX IF NOT EXISTS idx_guests_email ON guests(email);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_date ON waitlist_entries(date, service_name, status);
+CREATE INDEX IF NOT EXISTS idx_table_assignments_reservation ON table_assignments(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_table_assignments_waitlist ON table_assignments(waitlist_entry_id);
+CREATE INDEX IF NOT EXISTS idx_group_requests_status ON group_requests(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
 
 -- =====================================================
 -- INITIAL DATA - SERVICE WINDOWS
@@ -96,6 +365,81 @@ INSERT INTO service_windows (name, display_name, dow, start_time, end_time, last
 -- Tuesday (dow=2) - Only evening (opens at 17h)
 ('soir', 'Dîner', 2, '19:00', '23:00', '21:30', 100, 30, 60);
 
+-- =====================================================
+-- INITIAL DATA - MENU
+-- =====================================================
+
+-- The card of src/lib/menu.ts, only into an empty table (edits are kept)
+INSERT INTO menu_items (section, position, name, description, price, services, allergens, diets, badge)
+SELECT v.section, v.position, v.name, v.description, v.price, v.services, v.allergens, v.diets, v.badge
+FROM (VALUES
+    ('entrees', 1, 'Planche mixte à partager', 'Charcuteries catalanes, fromages affinés, pickles maison', 18, ARRAY['midi', 'soir'], ARRAY['lait', 'sulfites', 'moutarde'], '{}'::TEXT[], 'Populaire'),
+    ('entrees', 2, 'Tartare de saumon', 'Avocat, sésame, agrumes', 14, ARRAY['midi', 'soir'], ARRAY['poissons', 'sesame', 'soja'], '{}', NULL),
+    ('entrees', 3, 'Burrata crémeuse', 'Tomates anciennes, pesto basilic, huile d''olive', 13, ARRAY['midi', 'soir'], ARRAY['lait'], ARRAY['vegetarian', 'gluten_free'], NULL),
+    ('entrees', 4, 'Croquetas maison', 'Jambon ibérique, sauce aïoli', 9, ARRAY['midi', 'soir'], ARRAY['gluten', 'lait', 'oeufs'], '{}', NULL),
+    ('entrees', 5, 'Soupe du moment', 'Selon l''inspiration du chef', 8, ARRAY['midi', 'soir'], ARRAY['celeri'], ARRAY['vegetarian'], NULL),
+    ('plats', 1, 'Côte de boeuf maturée 1kg', 'Frites maison, sauce béarnaise (pour 2)', 58, ARRAY['midi', 'soir'], ARRAY['oeufs', 'lait', 'sulfites'], ARRAY['gluten_free'], 'Signature'),
+    ('plats', 2, 'Poulet rôti fermier', 'Légumes de saison, jus réduit', 32, ARRAY['midi', 'soir'], ARRAY['celeri', 'sulfites'], ARRAY['gluten_free'], NULL),
+    ('plats', 3, 'Gambas à la plancha', 'Ail, persil, piment d''Espelette', 28, ARRAY['midi', 'soir'], ARRAY['crustaces'], ARRAY['gluten_free'], NULL),
+    ('plats', 4, 'Souris d''agneau confite', 'Polenta crémeuse, jus au romarin', 26, ARRAY['midi', 'soir'], ARRAY['lait', 'celeri', 'sulfites'], ARRAY['gluten_free'], NULL),
+    ('plats', 5, 'Poisson du marché', 'Préparation selon arrivage', NULL, ARRAY['midi', 'soir'], ARRAY['poissons'], '{}', NULL),
+    ('bouillon', 1, 'Bouillon du jour', 'Recette qui change selon les saisons et l''humeur du chef', 14, ARRAY['midi'], ARRAY['gluten', 'celeri', 'soja'], '{}', NULL),
+    ('bouillon', 2, 'Bouillon complet', 'Bouillon + entrée du jour', 18, ARRAY['midi'], ARRAY['gluten', 'celeri', 'soja'], '{}', NULL),
+    ('bouillon', 3, 'Formule midi', 'Entrée + bouillon + dessert', 24, ARRAY['midi'], ARRAY['gluten', 'celeri', 'soja', 'lait', 'oeufs'], '{}', 'Bon plan'),
+    ('desserts', 1, 'Crème catalane', 'Caramélisée à la minute', 8, ARRAY['midi', 'soir'], ARRAY['lait', 'oeufs'], ARRAY['vegetarian', 'gluten_free'], NULL),
+    ('desserts', 2, 'Tarte du moment', 'Fruits de saison', 9, ARRAY['midi', 'soir'], ARRAY['gluten', 'lait', 'oeufs'], ARRAY['vegetarian'], NULL),
+    ('desserts', 3, 'Mousse au chocolat', 'Noir intense, éclats de noisette', 8, ARRAY['midi', 'soir'], ARRAY['lait', 'oeufs', 'fruits_a_coque', 'soja'], ARRAY['vegetarian', 'gluten_free'], NULL),
+    ('desserts', 4, 'Assiette de fromages', 'Sélection affinée, confiture de figue', 12, ARRAY['midi', 'soir'], ARRAY['lait'], ARRAY['vegetarian'], NULL),
+    ('desserts', 5, 'Café gourmand', 'Expresso et trio de mignardises', 10, ARRAY['midi', 'soir'], ARRAY['gluten', 'lait', 'oeufs', 'fruits_a_coque'], ARRAY['vegetarian'], NULL),
+    ('vins', 1, 'Rouge du Roussillon', NULL, 5, ARRAY['midi', 'soir'], ARRAY['sulfites'], ARRAY['vegetarian', 'gluten_free'], NULL),
+    ('vins', 2, 'Blanc sec (Côtes Catalanes)', NULL, 5, ARRAY['midi', 'soir'], ARRAY['sulfites'], ARRAY['vegetarian', 'gluten_free'], NULL),
+    ('vins', 3, 'Rosé de Provence', NULL, 5, ARRAY['midi', 'soir'], ARRAY['sulfites'], ARRAY['vegetarian', 'gluten_free'], NULL),
+    ('vins', 4, 'Vin naturel du moment', NULL, 7, ARRAY['midi', 'soir'], ARRAY['sulfites'], ARRAY['vegetarian', 'vegan', 'gluten_free'], NULL),
+    ('boissons', 1, 'Limonade artisanale', NULL, 4, ARRAY['midi', 'soir'], '{}', ARRAY['vegetarian', 'vegan', 'gluten_free'], NULL),
+    ('boissons', 2, 'Thé glacé maison', NULL, 4, ARRAY['midi', 'soir'], '{}', ARRAY['vegetarian', 'vegan', 'gluten_free'], NULL),
+    ('boissons', 3, 'Bière locale pression', NULL, 5, ARRAY['midi', 'soir'], ARRAY['gluten'], ARRAY['vegetarian', 'vegan'], NULL),
+    ('boissons', 4, 'Pastis 51', NULL, 4, ARRAY['midi', 'soir'], '{}', ARRAY['vegetarian', 'vegan', 'gluten_free'], NULL),
+    ('boissons', 5, 'Spritz', NULL, 8, ARRAY['midi', 'soir'], ARRAY['sulfites'], ARRAY['vegetarian', 'vegan', 'gluten_free'], NULL)
+) AS v(section, position, name, description, price, services, allergens, diets, badge)
+WHERE NOT EXISTS (SELECT 1 FROM menu_items);
+
+-- =====================================================
+-- INITIAL DATA - TABLES
+-- =====================================================
+
+-- Not cleared like service_windows: deleting a table drops its assignments
+INSERT INTO restaurant_tables (label, zone, seats) VALUES
+-- Salle: 4-tops along the windows, two 2-tops by the bar
+('S1', 'salle', 4), ('S2', 'salle', 4), ('S3', 'salle', 4), ('S4', 'salle', 4),
+('S5', 'salle', 4), ('S6', 'salle', 4), ('S7', 'salle', 4), ('S8', 'salle', 4),
+('S9', 'salle', 2), ('S10', 'salle', 2),
+-- Terrasse: 4-tops and the two guinguette benches
+('T1', 'terrasse', 4), ('T2', 'terrasse', 4), ('T3', 'terrasse', 4), ('T4', 'terrasse', 4),
+('T5', 'terrasse', 4), ('T6', 'terrasse', 4), ('T7', 'terrasse', 4), ('T8', 'terrasse', 4),
+('G1', 'terrasse', 10), ('G2', 'terrasse', 10),
+-- Bar: high tables for two
+('B1', 'bar', 2), ('B2', 'bar', 2), ('B3', 'bar', 2), ('B4', 'bar', 2), ('B5', 'bar', 2), ('B6', 'bar', 2)
+ON CONFLICT (label) DO NOTHING;
+
+INSERT INTO table_combinations (label, seats, table_ids)
+SELECT c.label, c.seats, ARRAY(SELECT t.id FROM restaurant_tables t WHERE t.label = ANY(c.tables))
+FROM (VALUES
+    ('S1+S2', 8, ARRAY['S1', 'S2']),
+    ('S3+S4', 8, ARRAY['S3', 'S4']),
+    ('S5+S6', 8, ARRAY['S5', 'S6']),
+    ('S7+S8', 8, ARRAY['S7', 'S8']),
+    ('S1+S2+S3', 12, ARRAY['S1', 'S2', 'S3']),
+    ('T1+T2', 8, ARRAY['T1', 'T2']),
+    ('T3+T4', 8, ARRAY['T3', 'T4']),
+    ('T5+T6', 8, ARRAY['T5', 'T6']),
+    ('T7+T8', 8, ARRAY['T7', 'T8']),
+    ('G1+G2', 22, ARRAY['G1', 'G2']),
+    ('B1+B2', 4, ARRAY['B1', 'B2']),
+    ('B3+B4', 4, ARRAY['B3', 'B4']),
+    ('B5+B6', 4, ARRAY['B5', 'B6'])
+) AS c(label, seats, tables)
+ON CONFLICT (label) DO NOTHING;
+
 -- =====================================================
 -- FUNCTIONS
 -- =====================================================
@@ -115,161 +459,2018 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to check if date is closed
-CREATE OR REPLACE FUNCTION is_date_closed(check_date DATE)
+-- Function to check if the current Supabase Auth user is a staff member
+-- SECURITY DEFINER so RLS policies can call it without reading staff_members themselves
+CREATE OR REPLACE FUNCTION is_staff()
 RETURNS BOOLEAN AS $$
 BEGIN
-    RETURN EXISTS (SELECT 1 FROM closures WHERE date = check_date);
+    RETURN EXISTS (SELECT 1 FROM staff_members WHERE user_id = auth.uid());
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
 
--- Function to get capacity taken for a specific slot
-CREATE OR REPLACE FUNCTION get_capacity_taken(
-    p_service_name TEXT,
-    p_start_at TIMESTAMPTZ,
-    p_end_at TIMESTAMPTZ
-)
+-- Function to get the restaurant timezone (service windows are wall-clock times in it)
+CREATE OR REPLACE FUNCTION get_restaurant_timezone()
+RETURNS TEXT AS $$
+DECLARE
+    v_timezone TEXT;
+BEGIN
+    SELECT value #>> '{}' INTO v_timezone FROM settings WHERE key = 'timezone';
+    RETURN COALESCE(v_timezone, 'Europe/Paris');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to get the largest party that can book online (larger parties send a group request)
+CREATE OR REPLACE FUNCTION get_max_group_size()
 RETURNS INTEGER AS $$
 DECLARE
-    taken INTEGER;
+    v_max INTEGER;
 BEGIN
-    SELECT COALESCE(SUM(guests), 0) INTO taken
-    FROM reservations
-    WHERE service_name = p_service_name
-      AND status = 'confirmed'
-      AND start_at < p_end_at
-      AND end_at > p_start_at;
+    SELECT (value #>> '{}')::INTEGER INTO v_max FROM settings WHERE key = 'max_group_size';
+    RETURN COALESCE(v_max, 12);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Upcoming confirmed reservations allowed per phone number (setting)
+CREATE OR REPLACE FUNCTION get_max_active_reservations_per_phone()
+RETURNS INTEGER AS $$
+DECLARE
+    v_max INTEGER;
+BEGIN
+    SELECT (value #>> '{}')::INTEGER INTO v_max FROM settings WHERE key = 'max_active_reservations_per_phone';
+    RETURN COALESCE(v_max, 3);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Booking rules (settings), applied to every slot by get_slots:
+-- online bookings start at least booking_lead_minutes ahead...
+CREATE OR REPLACE FUNCTION get_booking_lead_minutes()
+RETURNS INTEGER AS $$
+DECLARE
+    v_minutes INTEGER;
+BEGIN
+    SELECT (value #>> '{}')::INTEGER INTO v_minutes FROM settings WHERE key = 'booking_lead_minutes';
+    RETURN COALESCE(v_minutes, 60);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ...at most advance_booking_days ahead...
+CREATE OR REPLACE FUNCTION get_advance_booking_days()
+RETURNS INTEGER AS $$
+DECLARE
+    v_days INTEGER;
+BEGIN
+    SELECT (value #>> '{}')::INTEGER INTO v_days FROM settings WHERE key = 'advance_booking_days';
+    RETURN COALESCE(v_days, 30);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ...and close booking_cutoff_minutes before the service opens (NULL = no cutoff)
+CREATE OR REPLACE FUNCTION get_booking_cutoff_minutes()
+RETURNS INTEGER AS $$
+DECLARE
+    v_minutes INTEGER;
+BEGIN
+    SELECT (value #>> '{}')::INTEGER INTO v_minutes FROM settings WHERE key = 'booking_cutoff_minutes';
+    RETURN v_minutes;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Guarantees: a cancellation at least guarantee_cancellation_hours before the
+-- start releases the card hold or refunds the deposit, a later one is charged...
+CREATE OR REPLACE FUNCTION get_guarantee_cancellation_hours()
+RETURNS INTEGER AS $$
+DECLARE
+    v_hours INTEGER;
+BEGIN
+    SELECT (value #>> '{}')::INTEGER INTO v_hours FROM settings WHERE key = 'guarantee_cancellation_hours';
+    RETURN COALESCE(v_hours, 24);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ...and the guest has payment_hold_minutes to complete the card step
+CREATE OR REPLACE FUNCTION get_payment_hold_minutes()
+RETURNS INTEGER AS $$
+DECLARE
+    v_minutes INTEGER;
+BEGIN
+    SELECT (value #>> '{}')::INTEGER INTO v_minutes FROM settings WHERE key = 'payment_hold_minutes';
+    RETURN COALESCE(v_minutes, 15);
+END;
+$$ LANGUAGE plpgsql STABLE;
 
-    RETURN taken;
+-- Function to check if date is closed (whole-day closures only)
+CREATE OR REPLACE FUNCTION is_date_closed(check_date DATE)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM closures
+        WHERE check_date BETWEEN start_date AND end_date
+          AND service_name IS NULL
+    );
 END;
 $$ LANGUAGE plpgsql;
 
--- Main booking function with transaction lock
-CREATE OR REPLACE FUNCTION book_reservation(
+-- Function to check if a service is closed on a date (whole-day or service closure)
+CREATE OR REPLACE FUNCTION is_service_closed(check_date DATE, p_service_name TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM closures
+        WHERE check_date BETWEEN start_date AND end_date
+          AND (service_name IS NULL OR service_name = p_service_name)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Service windows in force on a date: the weekly service_windows, with that
+-- date's service_overrides replacing the window of the same name or adding a
+-- service. Closures are not applied here (see is_service_closed).
+CREATE OR REPLACE FUNCTION get_service_windows(p_date DATE)
+RETURNS TABLE(
+    name TEXT,
+    display_name TEXT,
+    start_time TIME,
+    end_time TIME,
+    last_reservation_time TIME,
+    capacity INTEGER,
+    slot_interval INTEGER,
+    meal_duration INTEGER,
+    is_override BOOLEAN
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT w.name, w.display_name, w.start_time, w.end_time, w.last_reservation_time,
+           w.capacity, w.slot_interval, w.meal_duration, w.is_override
+    FROM (
+        SELECT o.name, o.display_name, o.start_time, o.end_time, o.last_reservation_time,
+               o.capacity, o.slot_interval, o.meal_duration, TRUE AS is_override
+        FROM service_overrides o
+        WHERE o.date = p_date
+        UNION ALL
+        SELECT sw.name, sw.display_name, sw.start_time, sw.end_time, sw.last_reservation_time,
+               sw.capacity, sw.slot_interval, sw.meal_duration, FALSE
+        FROM service_windows sw
+        WHERE sw.dow = EXTRACT(DOW FROM p_date)::INTEGER
+          AND sw.is_active = TRUE
+          AND NOT EXISTS (
+              SELECT 1 FROM service_overrides o
+              WHERE o.date = p_date AND o.name = sw.name
+          )
+    ) w
+    ORDER BY w.start_time;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to normalize a phone number the same way /book stores it: E.164,
+-- numbers without a country code being French. Gives the result of
+-- normalizePhone (_shared/phone.ts) for every number it accepts; the
+-- per-country validation is done by the edge functions.
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_phone TEXT := regexp_replace(COALESCE(p_phone, ''), '[\s\-\.\(\)/]', '', 'g');
+BEGIN
+    IF v_phone LIKE '00%' THEN
+        v_phone := '+' || substr(v_phone, 3);
+    ELSIF v_phone ~ '^0[1-9]' THEN
+        v_phone := '+33' || substr(v_phone, 2);
+    END IF;
+    -- "+33 (0)6 ...", "+44 (0)20 ...": the trunk prefix of the countries that
+    -- have one in _shared/phone.ts (FR, BE, CH, DE, NL, GB, IE)
+    RETURN regexp_replace(v_phone, '^\+(33|32|41|49|31|44|353)0', '+\1');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Whether a reservation holds its covers and tables: confirmed, or waiting
+-- for its guarantee until the payment deadline
+CREATE OR REPLACE FUNCTION holds_covers(p_status TEXT, p_payment_expires_at TIMESTAMPTZ)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN p_status = 'confirmed' OR (p_status = 'pending_payment' AND p_payment_expires_at > NOW());
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- First rule of the guarantee_rules setting (a JSON array, in order) that
+-- applies to a booking, with the amount for the party. No row: no guarantee.
+-- A rule applies when each condition it sets holds:
+--   min_guests (party size), services (service names), days (0 = Sunday, in
+--   the restaurant timezone), events (true: event seats only, false: tables only)
+-- and gives kind ('card_hold' or 'deposit') and amount_per_guest (euros).
+CREATE OR REPLACE FUNCTION get_guarantee_rule(
     p_service_name TEXT,
     p_start_at TIMESTAMPTZ,
     p_guests INTEGER,
-    p_name TEXT,
-    p_phone TEXT,
-    p_email TEXT DEFAULT NULL,
-    p_notes TEXT DEFAULT NULL
+    p_is_event BOOLEAN DEFAULT FALSE
 )
 RETURNS TABLE(
-    ok BOOLEAN,
-    code TEXT,
-    reservation_id UUID,
-    error TEXT
+    rule_name TEXT,
+    kind TEXT,
+    amount NUMERIC
 ) AS $$
 DECLARE
-    v_code TEXT;
-    v_reservation_id UUID;
-    v_date DATE;
+    v_rule JSONB;
     v_dow INTEGER;
-    v_time TIME;
-    v_service_window service_windows%ROWTYPE;
-    v_end_at TIMESTAMPTZ;
-    v_capacity INTEGER;
-    v_taken INTEGER;
-    v_lock_key BIGINT;
 BEGIN
-    -- Extract date and time
-    v_date := p_start_at::DATE;
-    v_dow := EXTRACT(DOW FROM p_start_at)::INTEGER;
-    v_time := p_start_at::TIME;
+    v_dow := EXTRACT(DOW FROM (p_start_at AT TIME ZONE get_restaurant_timezone()))::INTEGER;
 
-    -- Check if date is closed
-    IF is_date_closed(v_date) THEN
-        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Restaurant fermé cette date'::TEXT;
+    FOR v_rule IN
+        SELECT r.rule
+        FROM settings s
+        CROSS JOIN LATERAL jsonb_array_elements(s.value) WITH ORDINALITY AS r(rule, position)
+        WHERE s.key = 'guarantee_rules' AND jsonb_typeof(s.value) = 'array'
+        ORDER BY r.position
+    LOOP
+        CONTINUE WHEN v_rule ? 'min_guests' AND p_guests < (v_rule->>'min_guests')::INTEGER;
+        CONTINUE WHEN v_rule ? 'services' AND NOT (v_rule->'services') ? p_service_name;
+        CONTINUE WHEN v_rule ? 'days' AND NOT (v_rule->'days') @> to_jsonb(v_dow);
+        CONTINUE WHEN v_rule ? 'events' AND (v_rule->>'events')::BOOLEAN <> p_is_event;
+
+        RETURN QUERY SELECT v_rule->>'name', COALESCE(v_rule->>'kind', 'card_hold'),
+            round((v_rule->>'amount_per_guest')::NUMERIC * p_guests, 2);
         RETURN;
-    END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
 
-    -- Get service window
-    SELECT * INTO v_service_window
-    FROM service_windows
-    WHERE name = p_service_name
-      AND dow = v_dow
-      AND is_active = TRUE;
+-- Guest profile of a booking: the guest with this phone number, else the
+-- guest with this email, else a new one. Keeps the latest name and the first
+-- email given.
+CREATE OR REPLACE FUNCTION upsert_guest(p_name TEXT, p_phone TEXT, p_email TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+    v_phone TEXT := normalize_phone(p_phone);
+    v_email TEXT := NULLIF(lower(trim(COALESCE(p_email, ''))), '');
+    v_guest_id UUID;
+BEGIN
+    SELECT g.id INTO v_guest_id FROM guests g WHERE g.phone = v_phone;
 
-    IF v_service_window IS NULL THEN
-        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Service non disponible ce jour'::TEXT;
-        RETURN;
+    IF v_guest_id IS NULL AND v_email IS NOT NULL THEN
+        SELECT g.id INTO v_guest_id FROM guests g WHERE g.email = v_email ORDER BY g.created_at LIMIT 1;
     END IF;
 
-    -- Check if time is within service window
-    IF v_time < v_service_window.start_time OR v_time > v_service_window.last_reservation_time THEN
-        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Créneau non disponible'::TEXT;
-        RETURN;
+    IF v_guest_id IS NULL THEN
+        INSERT INTO guests (phone, email, name)
+        VALUES (v_phone, v_email, trim(p_name))
+        ON CONFLICT (phone) DO UPDATE SET name = EXCLUDED.name
+        RETURNING id INTO v_guest_id;
+    ELSE
+        UPDATE guests g
+        SET name = trim(p_name), email = COALESCE(g.email, v_email)
+        WHERE g.id = v_guest_id;
     END IF;
 
-    -- Calculate end time
-    v_end_at := p_start_at + (v_service_window.meal_duration || ' minutes')::INTERVAL;
+    RETURN v_guest_id;
+END;
+$$ LANGUAGE plpgsql;
 
-    -- Acquire advisory lock for this date/service to prevent race conditions
-    v_lock_key := hashtext(v_date::TEXT || p_service_name);
-    PERFORM pg_advisory_xact_lock(v_lock_key);
+-- Recount a guest's visits, covers, no-shows and cancellations from their reservations
+CREATE OR REPLACE FUNCTION refresh_guest_stats(p_guest_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE guests g
+    SET visit_count = s.visits,
+        covers_count = s.covers,
+        last_visit_at = s.last_visit,
+        no_show_count = s.no_shows,
+        cancellation_count = s.cancellations
+    FROM (
+        SELECT COUNT(*) FILTER (WHERE r.status = 'completed') AS visits,
+               COALESCE(SUM(r.guests) FILTER (WHERE r.status = 'completed'), 0) AS covers,
+               MAX(r.start_at) FILTER (WHERE r.status = 'completed') AS last_visit,
+               COUNT(*) FILTER (WHERE r.status = 'no_show') AS no_shows,
+               COUNT(*) FILTER (WHERE r.status = 'cancelled') AS cancellations
+        FROM reservations r
+        WHERE r.guest_id = p_guest_id
+    ) s
+    WHERE g.id = p_guest_id;
+END;
+$$ LANGUAGE plpgsql;
 
-    -- Check capacity
-    v_capacity := v_service_window.capacity;
-    v_taken := get_capacity_taken(p_service_name, p_start_at, v_end_at);
+-- Converts the phone numbers stored before E.164 ("06 12 34 56 78",
+-- "0033 6...", "+32 (0)4...") with normalize_phone, on reservations, guests,
+-- the waitlist and group requests. Guests whose numbers turn out to be the
+-- same are merged into the oldest (reservations, tags and notes).
+-- Not converted to E.164 (only their spaces and dots go): numbers without a
+-- country code or leading 0 ("612 345 678") and numbers with text ("06...
+-- bureau"). A foreign number stored without its country code is read as
+-- French, as /book would read it.
+-- Idempotent: returns the number of rows changed, 0 the second time.
+CREATE OR REPLACE FUNCTION normalize_stored_phones()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER := 0;
+    v_rows INTEGER;
+    v_ids UUID[];
+    v_keep_ids UUID[];
+BEGIN
+    UPDATE reservations SET phone = normalize_phone(phone) WHERE phone <> normalize_phone(phone);
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
 
-    IF v_taken + p_guests > v_capacity THEN
-        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Capacité insuffisante pour ce créneau'::TEXT;
-        RETURN;
-    END IF;
+    UPDATE waitlist_entries SET phone = normalize_phone(phone) WHERE phone <> normalize_phone(phone);
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
 
-    -- Generate unique code
-    LOOP
-        v_code := generate_reservation_code();
-        EXIT WHEN NOT EXISTS (SELECT 1 FROM reservations WHERE code = v_code);
-    END LOOP;
+    UPDATE group_requests SET phone = normalize_phone(phone) WHERE phone <> normalize_phone(phone);
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
 
-    -- Insert reservation
-    INSERT INTO reservations (code, service_name, start_at, end_at, guests, name, phone, email, notes, status)
-    VALUES (v_code, p_service_name, p_start_at, v_end_at, p_guests, p_name, p_phone, p_email, p_notes, 'confirmed')
-    RETURNING id INTO v_reservation_id;
+    -- Guests of one number written two ways, and the one each is merged into
+    SELECT array_agg(g.id), array_agg(g.keep_id) INTO v_ids, v_keep_ids
+    FROM (
+        SELECT id, first_value(id) OVER (PARTITION BY normalize_phone(phone) ORDER BY created_at, id) AS keep_id
+        FROM guests
+    ) g
+    WHERE g.id <> g.keep_id;
 
-    RETURN QUERY SELECT TRUE, v_code, v_reservation_id, NULL::TEXT;
+    IF v_ids IS NOT NULL THEN
+        -- Moving the reservations refreshes the counters (update_guest_stats)
+        UPDATE reservations r SET guest_id = m.keep_id
+        FROM unnest(v_ids, v_keep_ids) AS m(id, keep_id)
+        WHERE r.guest_id = m.id;
+
+        UPDATE guests g SET
+            tags = ARRAY(SELECT DISTINCT unnest(g.tags || d.tags)),
+            notes = concat_ws(E'\n', g.notes, d.notes)
+        FROM (
+            SELECT m.keep_id, array_agg(t) FILTER (WHERE t IS NOT NULL) AS tags, string_agg(DISTINCT dup.notes, E'\n') AS notes
+            FROM unnest(v_ids, v_keep_ids) AS m(id, keep_id)
+            JOIN guests dup ON dup.id = m.id
+            LEFT JOIN LATERAL unnest(dup.tags) t ON TRUE
+            GROUP BY m.keep_id
+        ) d
+        WHERE g.id = d.keep_id;
+
+        DELETE FROM guests WHERE id = ANY(v_ids);
+        v_count := v_count + cardinality(v_ids);
+    END IF;
+
+    UPDATE guests SET phone = normalize_phone(phone) WHERE phone <> normalize_phone(phone);
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
+
+    RETURN v_count;
 END;
 $$ LANGUAGE plpgsql;
 
--- =====================================================
--- ROW LEVEL SECURITY
--- =====================================================
+-- No-show policy of the no_show_policy setting, when it applies to this guest
+-- (same phone number, email or an earlier booking with this number). The
+-- setting gives threshold (no-shows), action ('block': no online booking,
+-- 'guarantee': a guarantee is required) and, for a guarantee, kind and
+-- amount_per_guest as in guarantee_rules. No row: the guest books as anyone.
+CREATE OR REPLACE FUNCTION get_no_show_policy(p_phone TEXT, p_email TEXT, p_guests INTEGER)
+RETURNS TABLE(
+    action TEXT,
+    rule_name TEXT,
+    kind TEXT,
+    amount NUMERIC
+) AS $$
+DECLARE
+    v_policy JSONB;
+    v_no_shows INTEGER;
+BEGIN
+    SELECT s.value INTO v_policy FROM settings s WHERE s.key = 'no_show_policy';
 
--- Enable RLS on all tables
-ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
-ALTER TABLE service_windows ENABLE ROW LEVEL SECURITY;
-ALTER TABLE closures ENABLE ROW LEVEL SECURITY;
-ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
+    IF jsonb_typeof(v_policy) IS DISTINCT FROM 'object' OR NOT v_policy ? 'threshold' THEN
+        RETURN;
+    END IF;
 
--- Public read access for service_windows and closures
-CREATE POLICY "Allow public read access to service_windows" ON service_windows
-    FOR SELECT USING (true);
+    SELECT MAX(g.no_show_count) INTO v_no_shows
+    FROM guests g
+    WHERE g.phone = normalize_phone(p_phone)
+       OR g.email = NULLIF(lower(trim(COALESCE(p_email, ''))), '')
+       OR g.id IN (SELECT r.guest_id FROM reservations r WHERE r.phone = normalize_phone(p_phone));
 
-CREATE POLICY "Allow public read access to closures" ON closures
-    FOR SELECT USING (true);
+    IF COALESCE(v_no_shows, 0) < (v_policy->>'threshold')::INTEGER THEN
+        RETURN;
+    END IF;
 
--- Reservations: Allow insert via authenticated or anon (API calls)
-CREATE POLICY "Allow insert reservations" ON reservations
-    FOR INSERT WITH CHECK (true);
+    RETURN QUERY SELECT COALESCE(v_policy->>'action', 'guarantee'), 'no_show_policy'::TEXT,
+        COALESCE(v_policy->>'kind', 'card_hold'),
+        round(COALESCE((v_policy->>'amount_per_guest')::NUMERIC, 0) * p_guests, 2);
+END;
+$$ LANGUAGE plpgsql STABLE;
 
--- Reservations: Users can only read their own reservation by code (for confirmation page)
-CREATE POLICY "Allow read own reservation by code" ON reservations
-    FOR SELECT USING (true);
+-- Function to get capacity taken for a specific slot
+-- Counts confirmed reservations (and those waiting for their guarantee) plus
+-- active waitlist holds.
+-- p_exclude_id lets a reservation being modified ignore its own covers,
+-- p_exclude_hold_id lets a hold being converted ignore its own covers.
+CREATE OR REPLACE FUNCTION get_capacity_taken(
+    p_service_name TEXT,
+    p_start_at TIMESTAMPTZ,
+    p_end_at TIMESTAMPTZ,
+    p_exclude_id UUID DEFAULT NULL,
+    p_exclude_hold_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    taken INTEGER;
+    held INTEGER;
+BEGIN
+    SELECT COALESCE(SUM(guests), 0) INTO taken
+    FROM reservations
+    WHERE service_name = p_service_name
+      AND holds_covers(status, payment_expires_at)
+      AND start_at < p_end_at
+      AND end_at > p_start_at
+      AND (p_exclude_id IS NULL OR id <> p_exclude_id);
 
--- Settings: Public read
-CREATE POLICY "Allow public read settings" ON settings
-    FOR SELECT USING (true);
+    SELECT COALESCE(SUM(guests), 0) INTO held
+    FROM waitlist_entries
+    WHERE service_name = p_service_name
+      AND status = 'offered'
+      AND hold_expires_at > NOW()
+      AND hold_start_at < p_end_at
+      AND hold_end_at > p_start_at
+      AND (p_exclude_hold_id IS NULL OR id <> p_exclude_hold_id);
 
--- =====================================================
--- UPDATED_AT TRIGGER
--- =====================================================
+    RETURN taken + held;
+END;
+$$ LANGUAGE plpgsql;
 
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
+-- Function to list the tables in use on a slot: tables of overlapping
+-- confirmed (or pending payment) reservations and active waitlist holds
+CREATE OR REPLACE FUNCTION get_busy_tables(
+    p_start_at TIMESTAMPTZ,
+    p_end_at TIMESTAMPTZ,
+    p_exclude_id UUID DEFAULT NULL,
+    p_exclude_hold_id UUID DEFAULT NULL
+)
+RETURNS UUID[] AS $$
+DECLARE
+    v_busy UUID[];
 BEGIN
-    NEW.updated_at = NOW();
-    RETURN NEW;
+    SELECT COALESCE(array_agg(busy.table_id), '{}') INTO v_busy
+    FROM (
+        SELECT ta.table_id
+        FROM table_assignments ta
+        JOIN reservations r ON r.id = ta.reservation_id
+        WHERE holds_covers(r.status, r.payment_expires_at)
+          AND r.start_at < p_end_at
+          AND r.end_at > p_start_at
+          AND (p_exclude_id IS NULL OR r.id <> p_exclude_id)
+        UNION
+        SELECT ta.table_id
+        FROM table_assignments ta
+        JOIN waitlist_entries w ON w.id = ta.waitlist_entry_id
+        WHERE w.status = 'offered'
+          AND w.hold_expires_at > NOW()
+          AND w.hold_start_at < p_end_at
+          AND w.hold_end_at > p_start_at
+          AND (p_exclude_hold_id IS NULL OR w.id <> p_exclude_hold_id)
+    ) busy;
+
+    RETURN v_busy;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to find tables for a party on a slot: the smallest free table or
+-- combination with enough seats, a single table winning a tie.
+-- p_zone limits the choice to the tables of one zone (seating preference).
+-- Returns NULL when the party cannot be seated.
+CREATE OR REPLACE FUNCTION find_table_assignment(
+    p_start_at TIMESTAMPTZ,
+    p_end_at TIMESTAMPTZ,
+    p_guests INTEGER,
+    p_exclude_id UUID DEFAULT NULL,
+    p_exclude_hold_id UUID DEFAULT NULL,
+    p_zone TEXT DEFAULT NULL
+)
+RETURNS UUID[] AS $$
+DECLARE
+    v_busy UUID[] := get_busy_tables(p_start_at, p_end_at, p_exclude_id, p_exclude_hold_id);
+    v_table_ids UUID[];
+BEGIN
+    SELECT candidate.table_ids INTO v_table_ids
+    FROM (
+        SELECT ARRAY[t.id] AS table_ids, t.seats
+        FROM restaurant_tables t
+        WHERE t.is_active = TRUE
+        UNION ALL
+        SELECT c.table_ids, c.seats
+        FROM table_combinations c
+        WHERE c.is_active = TRUE
+          AND NOT EXISTS (
+              SELECT 1 FROM restaurant_tables t
+              WHERE t.id = ANY(c.table_ids) AND t.is_active = FALSE
+          )
+    ) candidate
+    WHERE candidate.seats >= p_guests
+      AND NOT candidate.table_ids && v_busy
+      AND (p_zone IS NULL OR NOT EXISTS (
+          SELECT 1 FROM restaurant_tables t
+          WHERE t.id = ANY(candidate.table_ids) AND t.zone <> p_zone
+      ))
+    ORDER BY candidate.seats, cardinality(candidate.table_ids)
+    LIMIT 1;
+
+    RETURN v_table_ids;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to seat a group too large for any table or combination: free
+-- tables of a single zone, largest first, in the zone with the fewest free
+-- seats that still fits the party. Returns NULL when no zone fits.
+CREATE OR REPLACE FUNCTION find_group_tables(
+    p_start_at TIMESTAMPTZ,
+    p_end_at TIMESTAMPTZ,
+    p_guests INTEGER,
+    p_exclude_id UUID DEFAULT NULL
+)
+RETURNS UUID[] AS $$
+DECLARE
+    v_busy UUID[] := get_busy_tables(p_start_at, p_end_at, p_exclude_id);
+    v_zone TEXT;
+    v_table RECORD;
+    v_table_ids UUID[] := '{}';
+    v_seats INTEGER := 0;
+BEGIN
+    SELECT t.zone INTO v_zone
+    FROM restaurant_tables t
+    WHERE t.is_active = TRUE
+      AND NOT t.id = ANY(v_busy)
+    GROUP BY t.zone
+    HAVING SUM(t.seats) >= p_guests
+    ORDER BY SUM(t.seats)
+    LIMIT 1;
+
+    IF v_zone IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_table IN
+        SELECT t.id, t.seats
+        FROM restaurant_tables t
+        WHERE t.zone = v_zone
+          AND t.is_active = TRUE
+          AND NOT t.id = ANY(v_busy)
+        ORDER BY t.seats DESC, t.label
+    LOOP
+        v_table_ids := v_table_ids || v_table.id;
+        v_seats := v_seats + v_table.seats;
+        EXIT WHEN v_seats >= p_guests;
+    END LOOP;
+
+    RETURN v_table_ids;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Slots of a day: every start time of the open services (weekly hours or
+-- that date's override, see get_service_windows), with the covers
+-- left and the tables that would seat p_guests. This is the one definition
+-- of availability: /availability lists the bookable rows, check_slot (book,
+-- modify, waitlist holds, group requests) only accepts a bookable row, and
+-- the calendar summarises them. unavailable_reason is NULL for a bookable
+-- slot, otherwise the first rule it breaks: lead time, booking window and
+-- cutoff (settings, see get_booking_lead_minutes), then covers and tables.
+-- available_capacity is NULL when a time rule already excludes the slot.
+-- p_group (accepted group requests) skips the time rules but the past and
+-- may spread the party over several tables of one zone.
+CREATE OR REPLACE FUNCTION get_slots(
+    p_date DATE,
+    p_guests INTEGER,
+    p_service_name TEXT DEFAULT NULL,
+    p_exclude_id UUID DEFAULT NULL,
+    p_exclude_hold_id UUID DEFAULT NULL,
+    p_group BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE(
+    service_name TEXT,
+    display_name TEXT,
+    start_at TIMESTAMPTZ,
+    end_at TIMESTAMPTZ,
+    capacity INTEGER,
+    available_capacity INTEGER,
+    table_ids UUID[],
+    unavailable_reason TEXT
+) AS $$
+DECLARE
+    v_timezone TEXT := get_restaurant_timezone();
+    v_lead_minutes INTEGER := get_booking_lead_minutes();
+    v_advance_days INTEGER := get_advance_booking_days();
+    v_cutoff_minutes INTEGER := get_booking_cutoff_minutes();
+    v_service_window RECORD;
+    v_service_start TIMESTAMPTZ;
+    v_slot_time TIME;
+BEGIN
+    IF is_date_closed(p_date) THEN
+        RETURN;
+    END IF;
+
+    FOR v_service_window IN
+        SELECT * FROM get_service_windows(p_date) sw
+        WHERE p_service_name IS NULL OR sw.name = p_service_name
+    LOOP
+        CONTINUE WHEN is_service_closed(p_date, v_service_window.name);
+
+        service_name := v_service_window.name;
+        display_name := v_service_window.display_name;
+        capacity := v_service_window.capacity;
+        v_service_start := (p_date + v_service_window.start_time) AT TIME ZONE v_timezone;
+        v_slot_time := v_service_window.start_time;
+
+        LOOP
+            start_at := (p_date + v_slot_time) AT TIME ZONE v_timezone;
+            end_at := start_at + make_interval(mins => v_service_window.meal_duration);
+            available_capacity := NULL;
+            table_ids := NULL;
+
+            IF start_at <= NOW() THEN
+                unavailable_reason := 'Impossible de réserver dans le passé';
+            ELSIF p_group THEN
+                unavailable_reason := NULL;
+            ELSIF start_at < NOW() + make_interval(mins => v_lead_minutes) THEN
+                unavailable_reason := format('Réservation en ligne jusqu''à %s minutes avant le créneau', v_lead_minutes);
+            ELSIF start_at > NOW() + make_interval(days => v_advance_days) THEN
+                unavailable_reason := format('Réservation limitée à %s jours à l''avance', v_advance_days);
+            ELSIF NOW() > v_service_start - make_interval(mins => v_cutoff_minutes) THEN
+                unavailable_reason := 'Les réservations en ligne sont closes pour ce service';
+            ELSE
+                unavailable_reason := NULL;
+            END IF;
+
+            IF unavailable_reason IS NULL THEN
+                available_capacity := v_service_window.capacity
+                    - get_capacity_taken(v_service_window.name, start_at, end_at, p_exclude_id, p_exclude_hold_id);
+
+                IF available_capacity < p_guests THEN
+                    unavailable_reason := 'Capacité insuffisante pour ce créneau';
+                ELSE
+                    table_ids := find_table_assignment(start_at, end_at, p_guests, p_exclude_id, p_exclude_hold_id);
+
+                    IF table_ids IS NULL AND p_group THEN
+                        table_ids := find_group_tables(start_at, end_at, p_guests, p_exclude_id);
+                    END IF;
+
+                    IF table_ids IS NULL THEN
+                        unavailable_reason := 'Aucune table disponible pour ce créneau';
+                    END IF;
+                END IF;
+            END IF;
+
+            -- A wall-clock time skipped by the spring DST change (02:00-02:59 in
+            -- Paris) lands on the hour after it: no slot, not a duplicate one.
+            -- A time repeated in autumn is one slot, at its second occurrence.
+            IF (start_at AT TIME ZONE v_timezone)::TIME = v_slot_time THEN
+                RETURN NEXT;
+            END IF;
+
+            -- TIME wraps past midnight: stop there rather than loop forever
+            EXIT WHEN v_slot_time + make_interval(mins => v_service_window.slot_interval) > v_service_window.last_reservation_time
+                OR v_slot_time + make_interval(mins => v_service_window.slot_interval) <= v_slot_time;
+            v_slot_time := v_slot_time + make_interval(mins => v_service_window.slot_interval);
+        END LOOP;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Validates a slot for a write under the date/service advisory lock: the
+-- slot must be a bookable row of get_slots, which also picks its tables.
+-- Parties above max_group_size are refused unless p_group is set (accepted
+-- group requests). The lock is held until the end of the calling
+-- transaction, so the caller must write its row and its table_assignments
+-- in the same transaction. The services of a day do not overlap in time, so
+-- the date/service lock is enough to guard the tables.
+CREATE OR REPLACE FUNCTION check_slot(
+    p_service_name TEXT,
+    p_start_at TIMESTAMPTZ,
+    p_guests INTEGER,
+    p_exclude_id UUID DEFAULT NULL,
+    p_exclude_hold_id UUID DEFAULT NULL,
+    p_group BOOLEAN DEFAULT FALSE,
+    OUT slot_end_at TIMESTAMPTZ,
+    OUT slot_error TEXT,
+    OUT slot_table_ids UUID[]
+) AS $$
+DECLARE
+    v_date DATE;
+    v_slot RECORD;
+BEGIN
+    IF p_guests < 1 OR (NOT p_group AND p_guests > get_max_group_size()) THEN
+        slot_error := format('Au-delà de %s personnes, faites une demande de groupe', get_max_group_size());
+        RETURN;
+    END IF;
+
+    -- Restaurant calendar date, not the session's
+    v_date := (p_start_at AT TIME ZONE get_restaurant_timezone())::DATE;
+
+    IF is_date_closed(v_date) THEN
+        slot_error := 'Restaurant fermé cette date';
+        RETURN;
+    END IF;
+
+    IF is_service_closed(v_date, p_service_name) THEN
+        slot_error := 'Service fermé cette date';
+        RETURN;
+    END IF;
+
+    -- Acquire advisory lock for this date/service to prevent race conditions
+    PERFORM pg_advisory_xact_lock(hashtext(v_date::TEXT || p_service_name));
+
+    SELECT * INTO v_slot
+    FROM get_slots(v_date, p_guests, p_service_name, p_exclude_id, p_exclude_hold_id, p_group) s
+    WHERE s.start_at = p_start_at;
+
+    IF NOT FOUND THEN
+        slot_error := 'Créneau non disponible';
+        RETURN;
+    END IF;
+
+    IF v_slot.unavailable_reason IS NOT NULL THEN
+        slot_error := v_slot.unavailable_reason;
+        RETURN;
+    END IF;
+
+    slot_end_at := v_slot.end_at;
+    slot_table_ids := v_slot.table_ids;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Availability calendar: one row per open service of each day in
+-- [p_from, p_to], for the date picker, summarising get_slots.
+-- remaining_covers is the most covers left on a slot open for booking;
+-- is_full is set when no slot can be booked for p_guests. Days without rows
+-- are closed (service windows, closures).
+CREATE OR REPLACE FUNCTION get_availability_calendar(
+    p_from DATE,
+    p_to DATE,
+    p_guests INTEGER
+)
+RETURNS TABLE(
+    day DATE,
+    service_name TEXT,
+    display_name TEXT,
+    capacity INTEGER,
+    remaining_covers INTEGER,
+    is_full BOOLEAN
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT g.calendar_day::DATE,
+           s.service_name,
+           s.display_name,
+           MAX(s.capacity),
+           COALESCE(MAX(s.available_capacity), 0),
+           NOT bool_or(s.unavailable_reason IS NULL)
+    FROM generate_series(p_from, p_to, INTERVAL '1 day') AS g(calendar_day)
+    CROSS JOIN LATERAL get_slots(g.calendar_day::DATE, p_guests) s
+    GROUP BY g.calendar_day, s.service_name, s.display_name
+    ORDER BY g.calendar_day, MIN(s.start_at);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Main booking function with transaction lock
+-- Called by /book with the service role key (see FUNCTION PERMISSIONS)
+CREATE OR REPLACE FUNCTION book_reservation(
+    p_service_name TEXT,
+    p_start_at TIMESTAMPTZ,
+    p_guests INTEGER,
+    p_name TEXT,
+    p_phone TEXT,
+    p_email TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_hold_token TEXT DEFAULT NULL,
+    p_language TEXT DEFAULT 'fr',
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_allergens TEXT[] DEFAULT '{}',
+    p_diets TEXT[] DEFAULT '{}',
+    p_high_chairs INTEGER DEFAULT 0,
+    p_wheelchair BOOLEAN DEFAULT FALSE,
+    p_occasion TEXT DEFAULT NULL,
+    p_seating_preference TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    code TEXT,
+    reservation_id UUID,
+    error TEXT,
+    error_code TEXT, -- reason of some refusals, for the widget (see /book)
+    replayed BOOLEAN, -- TRUE when p_idempotency_key matched an earlier booking
+    payment_required BOOLEAN -- pending_payment: the guarantee must be paid to confirm
+) AS $$
+DECLARE
+    v_code TEXT;
+    v_reservation_id UUID;
+    v_end_at TIMESTAMPTZ;
+    v_error TEXT;
+    v_table_ids UUID[];
+    v_preferred_table_ids UUID[];
+    v_hold waitlist_entries%ROWTYPE;
+    v_max_active INTEGER;
+    v_existing reservations%ROWTYPE;
+    v_guarantee RECORD;
+    v_policy RECORD;
+BEGIN
+    -- Retry of a booking attempt that went through (double tap, lost
+    -- response): return the original reservation instead of a second one
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('booking:' || p_idempotency_key));
+
+        SELECT * INTO v_existing
+        FROM reservations r
+        WHERE r.idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            IF v_existing.phone <> normalize_phone(p_phone) THEN
+                RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Cette demande de réservation a déjà été envoyée'::TEXT, NULL::TEXT, FALSE, FALSE;
+                RETURN;
+            END IF;
+
+            RETURN QUERY SELECT TRUE, v_existing.code, v_existing.id, NULL::TEXT, NULL::TEXT, TRUE,
+                v_existing.status = 'pending_payment';
+            RETURN;
+        END IF;
+    END IF;
+
+    -- Service role only, but not only /book: repeat the checks /book makes before calling
+    -- (lead time and booking window are slot rules, see get_slots)
+    IF length(trim(COALESCE(p_name, ''))) = 0 OR normalize_phone(p_phone) !~ '^\+[1-9][0-9]{7,14}$' THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Nom et téléphone requis'::TEXT, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    -- Cap on upcoming reservations per phone number, so a script cannot fill
+    -- the book under one identity (the lock serialises bookings per number)
+    PERFORM pg_advisory_xact_lock(hashtext('phone:' || normalize_phone(p_phone)));
+    v_max_active := get_max_active_reservations_per_phone();
+
+    IF (
+        SELECT COUNT(*) FROM reservations r
+        WHERE r.phone = normalize_phone(p_phone)
+          AND holds_covers(r.status, r.payment_expires_at)
+          AND r.start_at > NOW()
+    ) >= v_max_active THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            format('Trop de réservations à venir avec ce numéro (%s maximum)', v_max_active), 'too_many_reservations'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    -- No-show policy (no_show_policy setting): a guest who missed too many
+    -- bookings is refused online, or leaves a guarantee
+    SELECT * INTO v_policy FROM get_no_show_policy(p_phone, p_email, p_guests);
+
+    IF v_policy.action = 'block' THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            'La réservation en ligne n''est pas possible avec ce numéro : appelez-nous'::TEXT, 'no_show_blocked'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    -- A waitlist hold books its own slot, using the covers set aside for it
+    IF p_hold_token IS NOT NULL THEN
+        SELECT * INTO v_hold
+        FROM waitlist_entries w
+        WHERE w.hold_token = p_hold_token
+        FOR UPDATE;
+
+        IF v_hold IS NULL OR v_hold.status <> 'offered' OR v_hold.hold_expires_at < NOW() THEN
+            RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Cette place n''est plus disponible'::TEXT, NULL::TEXT, FALSE, FALSE;
+            RETURN;
+        END IF;
+
+        IF v_hold.service_name <> p_service_name OR v_hold.hold_start_at <> p_start_at OR p_guests > v_hold.guests THEN
+            RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'La réservation ne correspond pas à la place proposée'::TEXT, NULL::TEXT, FALSE, FALSE;
+            RETURN;
+        END IF;
+    END IF;
+
+    -- Validate slot, capacity and tables (acquires the date/service lock)
+    SELECT c.slot_end_at, c.slot_error, c.slot_table_ids INTO v_end_at, v_error, v_table_ids
+    FROM check_slot(p_service_name, p_start_at, p_guests, NULL, v_hold.id) c;
+
+    IF v_error IS NOT NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, v_error, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    -- Seating preference: tables of that zone when some are free, the usual
+    -- tables otherwise (still under the date/service lock of check_slot)
+    IF p_seating_preference IS NOT NULL THEN
+        v_preferred_table_ids := find_table_assignment(p_start_at, v_end_at, p_guests, NULL, v_hold.id, p_seating_preference);
+        v_table_ids := COALESCE(v_preferred_table_ids, v_table_ids);
+    END IF;
+
+    -- Near-duplicate: the same phone already holds a table at this service
+    -- at an overlapping time (the phone lock above covers concurrent calls)
+    IF EXISTS (
+        SELECT 1 FROM reservations r
+        WHERE r.phone = normalize_phone(p_phone)
+          AND r.service_name = p_service_name
+          AND holds_covers(r.status, r.payment_expires_at)
+          AND r.start_at < v_end_at
+          AND r.end_at > p_start_at
+    ) THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            'Vous avez déjà une réservation sur ce créneau'::TEXT, 'duplicate_booking'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    -- Generate unique code
+    LOOP
+        v_code := generate_reservation_code();
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM reservations r WHERE r.code = v_code);
+    END LOOP;
+
+    -- Card guarantee or deposit (guarantee_rules): the reservation holds its
+    -- covers and tables in pending_payment until the guest completes the card step
+    SELECT * INTO v_guarantee FROM get_guarantee_rule(p_service_name, p_start_at, p_guests);
+
+    IF v_guarantee.kind IS NULL AND v_policy.action = 'guarantee' THEN
+        SELECT v_policy.rule_name, v_policy.kind, v_policy.amount INTO v_guarantee;
+    END IF;
+
+    -- Insert reservation
+    INSERT INTO reservations (code, service_name, start_at, end_at, guests, name, phone, email, notes, language, status, payment_expires_at, idempotency_key,
+                              allergens, diets, high_chairs, wheelchair, occasion, seating_preference)
+    VALUES (v_code, p_service_name, p_start_at, v_end_at, p_guests, trim(p_name), normalize_phone(p_phone), p_email, p_notes, COALESCE(p_language, 'fr'),
+            CASE WHEN v_guarantee.kind IS NULL THEN 'confirmed' ELSE 'pending_payment' END,
+            CASE WHEN v_guarantee.kind IS NULL THEN NULL ELSE NOW() + get_payment_hold_minutes() * INTERVAL '1 minute' END,
+            p_idempotency_key,
+            COALESCE(p_allergens, '{}'), COALESCE(p_diets, '{}'), COALESCE(p_high_chairs, 0), COALESCE(p_wheelchair, FALSE),
+            p_occasion, p_seating_preference)
+    RETURNING id INTO v_reservation_id;
+
+    INSERT INTO table_assignments (table_id, reservation_id)
+    SELECT unnest(v_table_ids), v_reservation_id;
+
+    IF v_guarantee.kind IS NOT NULL THEN
+        INSERT INTO payments (reservation_id, kind, amount, rule)
+        VALUES (v_reservation_id, v_guarantee.kind, v_guarantee.amount, v_guarantee.rule_name);
+    END IF;
+
+    IF v_hold.id IS NOT NULL THEN
+        UPDATE waitlist_entries
+        SET status = 'booked', reservation_id = v_reservation_id
+        WHERE id = v_hold.id;
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_code, v_reservation_id, NULL::TEXT, NULL::TEXT, FALSE, v_guarantee.kind IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Start and end of an event as instants, in the restaurant timezone
+-- (an end_time before start_time ends the next day)
+CREATE OR REPLACE FUNCTION get_event_range(
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    OUT start_at TIMESTAMPTZ,
+    OUT end_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    start_at := (p_date + p_start_time) AT TIME ZONE get_restaurant_timezone();
+    end_at := ((p_date + CASE WHEN p_end_time <= p_start_time THEN 1 ELSE 0 END) + p_end_time)
+        AT TIME ZONE get_restaurant_timezone();
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Published events that have not started yet, with the seats left.
+-- p_slug selects a single event (the event page).
+CREATE OR REPLACE FUNCTION get_upcoming_events(p_slug TEXT DEFAULT NULL)
+RETURNS TABLE(
+    id UUID,
+    slug TEXT,
+    title TEXT,
+    date DATE,
+    start_at TIMESTAMPTZ,
+    end_at TIMESTAMPTZ,
+    capacity INTEGER,
+    price_per_person NUMERIC,
+    seats_left INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT e.id, e.slug, e.title, e.date, r.start_at, r.end_at, e.capacity, e.price_per_person,
+           GREATEST(e.capacity - COALESCE((
+               SELECT SUM(res.guests) FROM reservations res
+               WHERE res.event_id = e.id
+                 AND (holds_covers(res.status, res.payment_expires_at) OR res.status = 'completed')
+           ), 0)::INTEGER, 0)
+    FROM events e
+    CROSS JOIN LATERAL get_event_range(e.date, e.start_time, e.end_time) r
+    WHERE e.status = 'published'
+      AND r.start_at > NOW()
+      AND (p_slug IS NULL OR e.slug = p_slug)
+    ORDER BY r.start_at;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Books seats for an event: under the same date/service lock as check_slot,
+-- the party must fit the event's seats left, the covers left in its service
+-- that evening (weekly hours or override) and a free table for the whole
+-- event. Same idempotency, phone cap and duplicate rules as book_reservation.
+CREATE OR REPLACE FUNCTION book_event(
+    p_event_id UUID,
+    p_guests INTEGER,
+    p_name TEXT,
+    p_phone TEXT,
+    p_email TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_language TEXT DEFAULT 'fr',
+    p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    code TEXT,
+    reservation_id UUID,
+    error TEXT,
+    error_code TEXT, -- 'sold_out' and the book_reservation codes
+    replayed BOOLEAN,
+    payment_required BOOLEAN
+) AS $$
+DECLARE
+    v_event events%ROWTYPE;
+    v_start_at TIMESTAMPTZ;
+    v_end_at TIMESTAMPTZ;
+    v_service_capacity INTEGER;
+    v_seats_left INTEGER;
+    v_table_ids UUID[];
+    v_code TEXT;
+    v_reservation_id UUID;
+    v_max_active INTEGER;
+    v_existing reservations%ROWTYPE;
+    v_guarantee RECORD;
+    v_policy RECORD;
+BEGIN
+    IF p_idempotency_key IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('booking:' || p_idempotency_key));
+
+        SELECT * INTO v_existing
+        FROM reservations r
+        WHERE r.idempotency_key = p_idempotency_key;
+
+        IF FOUND THEN
+            IF v_existing.phone <> normalize_phone(p_phone) OR v_existing.event_id IS DISTINCT FROM p_event_id THEN
+                RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Cette demande de réservation a déjà été envoyée'::TEXT, NULL::TEXT, FALSE, FALSE;
+                RETURN;
+            END IF;
+
+            RETURN QUERY SELECT TRUE, v_existing.code, v_existing.id, NULL::TEXT, NULL::TEXT, TRUE,
+                v_existing.status = 'pending_payment';
+            RETURN;
+        END IF;
+    END IF;
+
+    IF length(trim(COALESCE(p_name, ''))) = 0 OR normalize_phone(p_phone) !~ '^\+[1-9][0-9]{7,14}$' THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Nom et téléphone requis'::TEXT, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    IF p_guests < 1 OR p_guests > get_max_group_size() THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            format('Au-delà de %s personnes, faites une demande de groupe', get_max_group_size()), NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_event FROM events e WHERE e.id = p_event_id;
+
+    IF NOT FOUND OR v_event.status <> 'published' THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Événement introuvable'::TEXT, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    SELECT r.start_at, r.end_at INTO v_start_at, v_end_at
+    FROM get_event_range(v_event.date, v_event.start_time, v_event.end_time) r;
+
+    IF v_start_at <= NOW() THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Cet événement a déjà eu lieu'::TEXT, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('phone:' || normalize_phone(p_phone)));
+    v_max_active := get_max_active_reservations_per_phone();
+
+    IF (
+        SELECT COUNT(*) FROM reservations r
+        WHERE r.phone = normalize_phone(p_phone)
+          AND holds_covers(r.status, r.payment_expires_at)
+          AND r.start_at > NOW()
+    ) >= v_max_active THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            format('Trop de réservations à venir avec ce numéro (%s maximum)', v_max_active), 'too_many_reservations'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_policy FROM get_no_show_policy(p_phone, p_email, p_guests);
+
+    IF v_policy.action = 'block' THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            'La réservation en ligne n''est pas possible avec ce numéro : appelez-nous'::TEXT, 'no_show_blocked'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM reservations r
+        WHERE r.phone = normalize_phone(p_phone)
+          AND r.event_id = p_event_id
+          AND holds_covers(r.status, r.payment_expires_at)
+    ) THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            'Vous avez déjà réservé pour cet événement'::TEXT, 'duplicate_booking'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    IF is_service_closed(v_event.date, v_event.service_name) THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Service fermé cette date'::TEXT, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    -- Same lock as check_slot: event seats and table bookings share the covers
+    PERFORM pg_advisory_xact_lock(hashtext(v_event.date::TEXT || v_event.service_name));
+
+    SELECT sw.capacity INTO v_service_capacity
+    FROM get_service_windows(v_event.date) sw
+    WHERE sw.name = v_event.service_name;
+
+    IF v_service_capacity IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Service non disponible ce jour'::TEXT, NULL::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    SELECT e.seats_left INTO v_seats_left FROM get_upcoming_events(v_event.slug) e;
+
+    IF v_seats_left < p_guests THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            CASE WHEN v_seats_left = 0 THEN 'Événement complet'
+                 ELSE format('Plus que %s place(s) pour cet événement', v_seats_left) END,
+            'sold_out'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    IF v_service_capacity - get_capacity_taken(v_event.service_name, v_start_at, v_end_at) < p_guests THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Capacité insuffisante pour cet événement'::TEXT, 'sold_out'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    v_table_ids := find_table_assignment(v_start_at, v_end_at, p_guests);
+
+    IF v_table_ids IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Aucune table disponible pour cet événement'::TEXT, 'sold_out'::TEXT, FALSE, FALSE;
+        RETURN;
+    END IF;
+
+    LOOP
+        v_code := generate_reservation_code();
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM reservations r WHERE r.code = v_code);
+    END LOOP;
+
+    -- Guarantee rules apply to event seats too (e.g. a deposit on event nights)
+    SELECT * INTO v_guarantee FROM get_guarantee_rule(v_event.service_name, v_start_at, p_guests, TRUE);
+
+    IF v_guarantee.kind IS NULL AND v_policy.action = 'guarantee' THEN
+        SELECT v_policy.rule_name, v_policy.kind, v_policy.amount INTO v_guarantee;
+    END IF;
+
+    INSERT INTO reservations (code, service_name, start_at, end_at, guests, name, phone, email, notes, language, status, payment_expires_at, idempotency_key, event_id)
+    VALUES (v_code, v_event.service_name, v_start_at, v_end_at, p_guests, trim(p_name), normalize_phone(p_phone), p_email, p_notes,
+            COALESCE(p_language, 'fr'),
+            CASE WHEN v_guarantee.kind IS NULL THEN 'confirmed' ELSE 'pending_payment' END,
+            CASE WHEN v_guarantee.kind IS NULL THEN NULL ELSE NOW() + get_payment_hold_minutes() * INTERVAL '1 minute' END,
+            p_idempotency_key, p_event_id)
+    RETURNING id INTO v_reservation_id;
+
+    INSERT INTO table_assignments (table_id, reservation_id)
+    SELECT unnest(v_table_ids), v_reservation_id;
+
+    IF v_guarantee.kind IS NOT NULL THEN
+        INSERT INTO payments (reservation_id, kind, amount, rule)
+        VALUES (v_reservation_id, v_guarantee.kind, v_guarantee.amount, v_guarantee.rule_name);
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_code, v_reservation_id, NULL::TEXT, NULL::TEXT, FALSE, v_guarantee.kind IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Guest lookup: a reservation is only returned when code and phone match,
+-- without phone, email or notes. Called by /reservation only, behind its rate
+-- limits: the anon key cannot call it to guess codes.
+-- The guarantee columns describe a card hold or deposit in force (NULL
+-- otherwise): a cancellation after free_cancellation_until charges it.
+CREATE OR REPLACE FUNCTION get_reservation(
+    p_code TEXT,
+    p_phone TEXT
+)
+RETURNS TABLE(
+    code TEXT,
+    service_name TEXT,
+    start_at TIMESTAMPTZ,
+    end_at TIMESTAMPTZ,
+    guests INTEGER,
+    name TEXT,
+    status TEXT,
+    guarantee_kind TEXT,
+    guarantee_amount NUMERIC,
+    free_cancellation_until TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT r.code, r.service_name, r.start_at, r.end_at, r.guests, r.name, r.status,
+           pm.kind, pm.amount,
+           CASE WHEN pm.id IS NOT NULL
+                THEN r.start_at - get_guarantee_cancellation_hours() * INTERVAL '1 hour'
+           END
+    FROM reservations r
+    LEFT JOIN payments pm ON pm.reservation_id = r.id AND pm.status = 'authorized'
+    WHERE r.code = upper(trim(p_code))
+      AND r.phone = normalize_phone(p_phone);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Guest modification: moves a confirmed reservation to a new slot and/or guest
+-- count, rechecking capacity with the same lock as book_reservation
+CREATE OR REPLACE FUNCTION modify_reservation(
+    p_code TEXT,
+    p_phone TEXT,
+    p_service_name TEXT,
+    p_start_at TIMESTAMPTZ,
+    p_guests INTEGER
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    code TEXT,
+    reservation_id UUID,
+    error TEXT
+) AS $$
+DECLARE
+    v_reservation reservations%ROWTYPE;
+    v_end_at TIMESTAMPTZ;
+    v_error TEXT;
+    v_table_ids UUID[];
+BEGIN
+    SELECT * INTO v_reservation
+    FROM reservations r
+    WHERE r.code = upper(trim(p_code))
+      AND r.phone = normalize_phone(p_phone)
+    FOR UPDATE;
+
+    IF v_reservation IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Réservation introuvable'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_reservation.status <> 'confirmed' OR v_reservation.start_at < NOW() THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Cette réservation ne peut plus être modifiée'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Event seats follow the event: they can be cancelled, not moved
+    IF v_reservation.event_id IS NOT NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Une réservation d''événement ne peut pas être modifiée : annulez-la puis réservez à nouveau'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Validate new slot, ignoring the covers and tables of the reservation being moved
+    SELECT c.slot_end_at, c.slot_error, c.slot_table_ids INTO v_end_at, v_error, v_table_ids
+    FROM check_slot(p_service_name, p_start_at, p_guests, v_reservation.id) c;
+
+    IF v_error IS NOT NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, v_error;
+        RETURN;
+    END IF;
+
+    -- A guarantee cannot be taken here: a booking without one cannot move
+    -- where a guarantee rule applies (an existing guarantee is kept as is)
+    IF EXISTS (SELECT 1 FROM get_guarantee_rule(p_service_name, p_start_at, p_guests))
+       AND NOT EXISTS (SELECT 1 FROM payments pm WHERE pm.reservation_id = v_reservation.id AND pm.status = 'authorized') THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID,
+            'Ce créneau demande une garantie bancaire : annulez puis réservez à nouveau'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Swap tables before the update: its waitlist trigger must see the new ones
+    DELETE FROM table_assignments ta WHERE ta.reservation_id = v_reservation.id;
+    INSERT INTO table_assignments (table_id, reservation_id)
+    SELECT unnest(v_table_ids), v_reservation.id;
+
+    UPDATE reservations
+    SET service_name = p_service_name,
+        start_at = p_start_at,
+        end_at = v_end_at,
+        guests = p_guests,
+        high_chairs = LEAST(high_chairs, p_guests)
+    WHERE id = v_reservation.id;
+
+    RETURN QUERY SELECT TRUE, v_reservation.code, v_reservation.id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Guest cancellation: frees the covers of a confirmed (or pending payment),
+-- upcoming reservation. Its guarantee is charged or released by
+-- queue_guarantee_action; charged_kind and charged_amount tell the guest
+-- when it was charged (late cancellation).
+CREATE OR REPLACE FUNCTION cancel_reservation(
+    p_code TEXT,
+    p_phone TEXT
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    error TEXT,
+    charged_kind TEXT,
+    charged_amount NUMERIC
+) AS $$
+DECLARE
+    v_reservation reservations%ROWTYPE;
+BEGIN
+    SELECT * INTO v_reservation
+    FROM reservations r
+    WHERE r.code = upper(trim(p_code))
+      AND r.phone = normalize_phone(p_phone)
+    FOR UPDATE;
+
+    IF v_reservation IS NULL THEN
+        RETURN QUERY SELECT FALSE, 'Réservation introuvable'::TEXT, NULL::TEXT, NULL::NUMERIC;
+        RETURN;
+    END IF;
+
+    IF v_reservation.status NOT IN ('confirmed', 'pending_payment') OR v_reservation.start_at < NOW() THEN
+        RETURN QUERY SELECT FALSE, 'Cette réservation ne peut plus être annulée'::TEXT, NULL::TEXT, NULL::NUMERIC;
+        RETURN;
+    END IF;
+
+    UPDATE reservations
+    SET status = 'cancelled'
+    WHERE id = v_reservation.id;
+
+    RETURN QUERY
+    SELECT TRUE, NULL::TEXT, pm.kind, pm.amount
+    FROM (SELECT 1) one
+    LEFT JOIN payments pm ON pm.reservation_id = v_reservation.id AND pm.status IN ('capture_pending', 'captured');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Back-office: confirmed upcoming reservations that a closure would fall on
+CREATE OR REPLACE FUNCTION get_closure_conflicts(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_service_name TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    reservation_id UUID,
+    code TEXT,
+    service_name TEXT,
+    start_at TIMESTAMPTZ,
+    guests INTEGER,
+    name TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT r.id, r.code, r.service_name, r.start_at, r.guests, r.name
+    FROM reservations r
+    WHERE r.status = 'confirmed'
+      AND r.start_at > NOW()
+      AND (r.start_at AT TIME ZONE get_restaurant_timezone())::DATE BETWEEN p_start_date AND p_end_date
+      AND (p_service_name IS NULL OR r.service_name = p_service_name)
+    ORDER BY r.start_at;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Back-office: creates a closure (p_id NULL) or updates one, unless it would
+-- fall on confirmed upcoming reservations (get_closure_conflicts), returned
+-- in conflicts instead. Holds the lock of check_slot for every closed service
+-- of every date, so no booking lands in the closure between the check and
+-- the write. closure is NULL when p_id matches no closure.
+CREATE OR REPLACE FUNCTION save_closure(
+    p_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_service_name TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    closure JSONB,
+    conflicts JSONB
+) AS $$
+DECLARE
+    v_lock RECORD;
+    v_conflicts JSONB;
+    v_closure closures%ROWTYPE;
+BEGIN
+    -- Date and service order, as offer_all_waitlist_holds, so two callers never deadlock
+    FOR v_lock IN
+        SELECT d::DATE AS date, s.name
+        FROM generate_series(p_start_date, p_end_date, INTERVAL '1 day') d
+        CROSS JOIN LATERAL (
+            SELECT sw.name FROM service_windows sw
+            UNION
+            SELECT o.name FROM service_overrides o WHERE o.date = d::DATE
+        ) s
+        WHERE p_service_name IS NULL OR s.name = p_service_name
+        ORDER BY 1, 2
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtext(v_lock.date::TEXT || v_lock.name));
+    END LOOP;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(c)), '[]'::JSONB) INTO v_conflicts
+    FROM get_closure_conflicts(p_start_date, p_end_date, p_service_name) c;
+
+    IF jsonb_array_length(v_conflicts) > 0 THEN
+        RETURN QUERY SELECT NULL::JSONB, v_conflicts;
+        RETURN;
+    END IF;
+
+    IF p_id IS NULL THEN
+        INSERT INTO closures (start_date, end_date, service_name, reason)
+        VALUES (p_start_date, p_end_date, p_service_name, p_reason)
+        RETURNING * INTO v_closure;
+    ELSE
+        UPDATE closures
+        SET start_date = p_start_date,
+            end_date = p_end_date,
+            service_name = p_service_name,
+            reason = p_reason
+        WHERE id = p_id
+        RETURNING * INTO v_closure;
+
+        IF NOT FOUND THEN
+            RETURN QUERY SELECT NULL::JSONB, v_conflicts;
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY SELECT to_jsonb(v_closure), v_conflicts;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Back-office: confirmed upcoming reservations that would no longer fit a
+-- service window once edited (pass p_is_active = FALSE for a removal).
+-- Dates with an override of the service keep their own hours.
+CREATE OR REPLACE FUNCTION get_service_window_conflicts(
+    p_name TEXT,
+    p_dow INTEGER,
+    p_start_time TIME,
+    p_last_reservation_time TIME,
+    p_is_active BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE(
+    reservation_id UUID,
+    code TEXT,
+    service_name TEXT,
+    start_at TIMESTAMPTZ,
+    guests INTEGER,
+    name TEXT
+) AS $$
+DECLARE
+    v_timezone TEXT := get_restaurant_timezone();
+BEGIN
+    RETURN QUERY
+    SELECT r.id, r.code, r.service_name, r.start_at, r.guests, r.name
+    FROM reservations r
+    WHERE r.status = 'confirmed'
+      AND r.start_at > NOW()
+      AND r.service_name = p_name
+      AND EXTRACT(DOW FROM r.start_at AT TIME ZONE v_timezone)::INTEGER = p_dow
+      AND NOT EXISTS (
+          SELECT 1 FROM service_overrides o
+          WHERE o.date = (r.start_at AT TIME ZONE v_timezone)::DATE
+            AND o.name = r.service_name
+      )
+      AND (
+          NOT p_is_active
+          OR (r.start_at AT TIME ZONE v_timezone)::TIME < p_start_time
+          OR (r.start_at AT TIME ZONE v_timezone)::TIME > p_last_reservation_time
+      )
+    ORDER BY r.start_at;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Back-office: confirmed upcoming reservations of a date that would no
+-- longer fit once its override of the service is saved with these hours.
+-- NULL hours for a removal: the weekly window applies again, if any.
+CREATE OR REPLACE FUNCTION get_service_override_conflicts(
+    p_date DATE,
+    p_name TEXT,
+    p_start_time TIME DEFAULT NULL,
+    p_last_reservation_time TIME DEFAULT NULL
+)
+RETURNS TABLE(
+    reservation_id UUID,
+    code TEXT,
+    service_name TEXT,
+    start_at TIMESTAMPTZ,
+    guests INTEGER,
+    name TEXT
+) AS $$
+DECLARE
+    v_timezone TEXT := get_restaurant_timezone();
+    v_start_time TIME := p_start_time;
+    v_last_reservation_time TIME := p_last_reservation_time;
+BEGIN
+    IF v_start_time IS NULL THEN
+        SELECT sw.start_time, sw.last_reservation_time INTO v_start_time, v_last_reservation_time
+        FROM service_windows sw
+        WHERE sw.name = p_name
+          AND sw.dow = EXTRACT(DOW FROM p_date)::INTEGER
+          AND sw.is_active = TRUE;
+    END IF;
+
+    RETURN QUERY
+    SELECT r.id, r.code, r.service_name, r.start_at, r.guests, r.name
+    FROM reservations r
+    WHERE r.status = 'confirmed'
+      AND r.start_at > NOW()
+      AND r.service_name = p_name
+      AND (r.start_at AT TIME ZONE v_timezone)::DATE = p_date
+      AND (
+          v_start_time IS NULL
+          OR (r.start_at AT TIME ZONE v_timezone)::TIME < v_start_time
+          OR (r.start_at AT TIME ZONE v_timezone)::TIME > v_last_reservation_time
+      )
+    ORDER BY r.start_at;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Waitlist: puts a guest on the waiting list of a date/service
+CREATE OR REPLACE FUNCTION join_waitlist(
+    p_date DATE,
+    p_service_name TEXT,
+    p_guests INTEGER,
+    p_name TEXT,
+    p_phone TEXT,
+    p_email TEXT,
+    p_language TEXT DEFAULT 'fr'
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    entry_id UUID,
+    error TEXT
+) AS $$
+DECLARE
+    v_entry_id UUID;
+BEGIN
+    IF p_date < (NOW() AT TIME ZONE get_restaurant_timezone())::DATE THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 'Date passée'::TEXT;
+        RETURN;
+    END IF;
+
+    IF p_guests > get_max_group_size() THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, format('Au-delà de %s personnes, faites une demande de groupe', get_max_group_size());
+        RETURN;
+    END IF;
+
+    IF is_service_closed(p_date, p_service_name) OR NOT EXISTS (
+        SELECT 1 FROM get_service_windows(p_date) sw
+        WHERE sw.name = p_service_name
+    ) THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 'Service non disponible ce jour'::TEXT;
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM waitlist_entries w
+        WHERE w.date = p_date
+          AND w.service_name = p_service_name
+          AND w.phone = normalize_phone(p_phone)
+          AND w.status IN ('waiting', 'offered')
+    ) THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 'Vous êtes déjà sur la liste d''attente pour ce service'::TEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO waitlist_entries (date, service_name, guests, name, phone, email, language)
+    VALUES (p_date, p_service_name, p_guests, p_name, normalize_phone(p_phone), p_email, COALESCE(p_language, 'fr'))
+    RETURNING id INTO v_entry_id;
+
+    -- Covers may already be free for a smaller party
+    PERFORM offer_waitlist_holds(p_date, p_service_name);
+
+    RETURN QUERY SELECT TRUE, v_entry_id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Waitlist: offers free covers to waiting guests, oldest first. Each guest
+-- whose party fits gets a hold on the earliest slot with free covers and
+-- tables for `waitlist_hold_minutes`; held covers and tables count as taken
+-- until then.
+-- Returns the number of new holds.
+CREATE OR REPLACE FUNCTION offer_waitlist_holds(
+    p_date DATE,
+    p_service_name TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_hold_minutes INTEGER;
+    v_entry waitlist_entries%ROWTYPE;
+    v_start_at TIMESTAMPTZ;
+    v_end_at TIMESTAMPTZ;
+    v_table_ids UUID[];
+    v_offered INTEGER := 0;
+BEGIN
+    -- Same lock as check_slot, so holds and bookings never oversell a slot
+    PERFORM pg_advisory_xact_lock(hashtext(p_date::TEXT || p_service_name));
+
+    -- Holds that ran out free their covers
+    UPDATE waitlist_entries
+    SET status = 'expired'
+    WHERE date = p_date
+      AND service_name = p_service_name
+      AND status = 'offered'
+      AND hold_expires_at <= NOW();
+
+    SELECT (value #>> '{}')::INTEGER INTO v_hold_minutes FROM settings WHERE key = 'waitlist_hold_minutes';
+    v_hold_minutes := COALESCE(v_hold_minutes, 30);
+
+    FOR v_entry IN
+        SELECT * FROM waitlist_entries
+        WHERE date = p_date
+          AND service_name = p_service_name
+          AND status = 'waiting'
+        ORDER BY created_at
+    LOOP
+        -- Earliest slot the guest could book right now (same rules as /book)
+        SELECT s.start_at, s.end_at, s.table_ids INTO v_start_at, v_end_at, v_table_ids
+        FROM get_slots(p_date, v_entry.guests, p_service_name) s
+        WHERE s.unavailable_reason IS NULL
+        ORDER BY s.start_at
+        LIMIT 1;
+
+        IF FOUND THEN
+            -- The hold must be converted while the slot still meets the lead time
+            UPDATE waitlist_entries
+            SET status = 'offered',
+                hold_token = replace(uuid_generate_v4()::TEXT, '-', ''),
+                hold_start_at = v_start_at,
+                hold_end_at = v_end_at,
+                hold_expires_at = LEAST(
+                    NOW() + (v_hold_minutes || ' minutes')::INTERVAL,
+                    v_start_at - make_interval(mins => get_booking_lead_minutes())
+                ),
+                hold_notified_at = NULL
+            WHERE id = v_entry.id;
+
+            INSERT INTO table_assignments (table_id, waitlist_entry_id)
+            SELECT unnest(v_table_ids), v_entry.id;
+
+            v_offered := v_offered + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_offered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Waitlist: runs offer_waitlist_holds for every date/service with guests
+-- waiting (after capacity or hours changes, and to recycle expired holds)
+CREATE OR REPLACE FUNCTION offer_all_waitlist_holds()
+RETURNS INTEGER AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE get_restaurant_timezone())::DATE;
+    v_pending RECORD;
+    v_offered INTEGER := 0;
+BEGIN
+    UPDATE waitlist_entries
+    SET status = 'expired'
+    WHERE status IN ('waiting', 'offered')
+      AND date < v_today;
+
+    FOR v_pending IN
+        SELECT DISTINCT w.date, w.service_name
+        FROM waitlist_entries w
+        WHERE w.status IN ('waiting', 'offered')
+        ORDER BY w.date, w.service_name
+    LOOP
+        v_offered := v_offered + offer_waitlist_holds(v_pending.date, v_pending.service_name);
+    END LOOP;
+
+    RETURN v_offered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Waitlist: hold details for the booking page, looked up by its secret token
+CREATE OR REPLACE FUNCTION get_waitlist_hold(p_token TEXT)
+RETURNS TABLE(
+    date DATE,
+    service_name TEXT,
+    guests INTEGER,
+    name TEXT,
+    phone TEXT,
+    email TEXT,
+    status TEXT,
+    hold_start_at TIMESTAMPTZ,
+    hold_expires_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT w.date, w.service_name, w.guests, w.name, w.phone, w.email,
+           CASE WHEN w.status = 'offered' AND w.hold_expires_at <= NOW() THEN 'expired' ELSE w.status END,
+           w.hold_start_at, w.hold_expires_at
+    FROM waitlist_entries w
+    WHERE w.hold_token = p_token;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Group requests: turns a pending request into a confirmed reservation.
+-- A group is seated like any booking at p_start_at, spread over several
+-- tables of one zone if needed. A privatisation takes every active table for
+-- the whole service of that date and needs the service to be empty.
+CREATE OR REPLACE FUNCTION accept_group_request(
+    p_request_id UUID,
+    p_service_name TEXT,
+    p_start_at TIMESTAMPTZ
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    code TEXT,
+    reservation_id UUID,
+    error TEXT
+) AS $$
+DECLARE
+    v_request group_requests%ROWTYPE;
+    v_code TEXT;
+    v_reservation_id UUID;
+    v_start_at TIMESTAMPTZ := p_start_at;
+    v_end_at TIMESTAMPTZ;
+    v_error TEXT;
+    v_table_ids UUID[];
+    v_date DATE;
+    v_service_window RECORD;
+BEGIN
+    SELECT * INTO v_request
+    FROM group_requests g
+    WHERE g.id = p_request_id
+    FOR UPDATE;
+
+    IF v_request IS NULL OR v_request.status <> 'pending' THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Demande introuvable ou déjà traitée'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_request.is_privatisation THEN
+        v_date := (p_start_at AT TIME ZONE get_restaurant_timezone())::DATE;
+
+        IF is_date_closed(v_date) OR is_service_closed(v_date, p_service_name) THEN
+            RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Service fermé cette date'::TEXT;
+            RETURN;
+        END IF;
+
+        SELECT * INTO v_service_window
+        FROM get_service_windows(v_date) sw
+        WHERE sw.name = p_service_name;
+
+        IF NOT FOUND THEN
+            RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Service non disponible ce jour'::TEXT;
+            RETURN;
+        END IF;
+
+        v_start_at := (v_date + v_service_window.start_time) AT TIME ZONE get_restaurant_timezone();
+        v_end_at := (v_date + v_service_window.end_time) AT TIME ZONE get_restaurant_timezone();
+
+        -- Same lock as check_slot, so no booking slips in meanwhile
+        PERFORM pg_advisory_xact_lock(hashtext(v_date::TEXT || p_service_name));
+
+        IF cardinality(get_busy_tables(v_start_at, v_end_at)) > 0 THEN
+            RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, 'Le service a déjà des réservations'::TEXT;
+            RETURN;
+        END IF;
+
+        SELECT array_agg(t.id) INTO v_table_ids
+        FROM restaurant_tables t
+        WHERE t.is_active = TRUE;
+    ELSE
+        SELECT c.slot_end_at, c.slot_error, c.slot_table_ids INTO v_end_at, v_error, v_table_ids
+        FROM check_slot(p_service_name, p_start_at, v_request.guests, NULL, NULL, TRUE) c;
+
+        IF v_error IS NOT NULL THEN
+            RETURN QUERY SELECT FALSE, NULL::TEXT, NULL::UUID, v_error;
+            RETURN;
+        END IF;
+    END IF;
+
+    LOOP
+        v_code := generate_reservation_code();
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM reservations r WHERE r.code = v_code);
+    END LOOP;
+
+    INSERT INTO reservations (code, service_name, start_at, end_at, guests, name, phone, email, notes, language, status)
+    VALUES (v_code, p_service_name, v_start_at, v_end_at, v_request.guests, v_request.name, v_request.phone,
+            v_request.email, v_request.message, v_request.language, 'confirmed')
+    RETURNING id INTO v_reservation_id;
+
+    INSERT INTO table_assignments (table_id, reservation_id)
+    SELECT unnest(v_table_ids), v_reservation_id;
+
+    UPDATE group_requests
+    SET status = 'accepted', reservation_id = v_reservation_id, decided_at = NOW()
+    WHERE id = v_request.id;
+
+    RETURN QUERY SELECT TRUE, v_code, v_reservation_id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Guarantees: card step completed at the provider (checked by /payments
+-- first): confirms the reservation. When the reservation was released in the
+-- meantime (late return, cancellation), the guarantee is queued for release.
+CREATE OR REPLACE FUNCTION confirm_reservation_payment(
+    p_reservation_id UUID
+)
+RETURNS TABLE(
+    ok BOOLEAN,
+    code TEXT,
+    error TEXT
+) AS $$
+DECLARE
+    v_reservation reservations%ROWTYPE;
+    v_payment payments%ROWTYPE;
+BEGIN
+    SELECT * INTO v_reservation FROM reservations r WHERE r.id = p_reservation_id FOR UPDATE;
+    SELECT * INTO v_payment FROM payments pm WHERE pm.reservation_id = p_reservation_id FOR UPDATE;
+
+    IF v_reservation.id IS NULL OR v_payment.id IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::TEXT, 'Réservation introuvable'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_reservation.status = 'pending_payment' AND v_reservation.payment_expires_at > NOW() THEN
+        UPDATE payments SET status = 'authorized', checkout_url = NULL WHERE id = v_payment.id;
+        UPDATE reservations SET status = 'confirmed', payment_expires_at = NULL WHERE id = v_reservation.id;
+
+        RETURN QUERY SELECT TRUE, v_reservation.code, NULL::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_payment.status IN ('pending', 'expired') THEN
+        UPDATE reservations SET status = 'cancelled' WHERE id = v_reservation.id AND status = 'pending_payment';
+        UPDATE payments SET status = 'release_pending', checkout_url = NULL WHERE id = v_payment.id;
+
+        RETURN QUERY SELECT FALSE, v_reservation.code,
+            'Le délai de paiement est dépassé et la réservation a été libérée : votre paiement sera annulé.'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Guest back from the card step a second time
+    RETURN QUERY SELECT v_reservation.status = 'confirmed', v_reservation.code,
+        CASE WHEN v_reservation.status = 'confirmed' THEN NULL ELSE 'Cette réservation n''est plus active' END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Guarantees: reservations whose card step was not completed in time are
+-- cancelled (called by the notifications job; their covers already count as free)
+CREATE OR REPLACE FUNCTION expire_pending_payments()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE reservations
+    SET status = 'cancelled'
+    WHERE status = 'pending_payment'
+      AND payment_expires_at <= NOW();
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rate limiting: counts one request against p_key in the current fixed
+-- window of p_window_seconds and tells whether it is within p_limit
+CREATE OR REPLACE FUNCTION hit_rate_limit(p_key TEXT, p_limit INTEGER, p_window_seconds INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_window_start TIMESTAMPTZ;
+    v_hits INTEGER;
+BEGIN
+    v_window_start := to_timestamp(floor(extract(epoch FROM NOW()) / p_window_seconds) * p_window_seconds);
+
+    INSERT INTO rate_limits (key, window_start, hits)
+    VALUES (p_key, v_window_start, 1)
+    ON CONFLICT (key, window_start) DO UPDATE SET hits = rate_limits.hits + 1
+    RETURNING hits INTO v_hits;
+
+    RETURN v_hits <= p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rate limiting: drops counters of windows that ended more than a day ago
+CREATE OR REPLACE FUNCTION purge_rate_limits()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    DELETE FROM rate_limits WHERE window_start < NOW() - INTERVAL '1 day';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Enable RLS on all tables
+ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE closures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lunch_boards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE restaurant_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE table_combinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE table_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Public read access for service_windows, closures and service_overrides
+CREATE POLICY "Allow public read access to service_windows" ON service_windows
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow public read access to closures" ON closures
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow public read access to service_overrides" ON service_overrides
+    FOR SELECT USING (true);
+
+-- Events: published ones are public (built into /evenements), drafts are staff only
+CREATE POLICY "Allow public read published events" ON events
+    FOR SELECT USING (status = 'published');
+
+CREATE POLICY "Allow staff read events" ON events
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Menu: available dishes are public (built into /menu), hidden ones are staff only
+CREATE POLICY "Allow public read available menu_items" ON menu_items
+    FOR SELECT USING (is_available);
+
+CREATE POLICY "Allow staff read menu_items" ON menu_items
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Lunch boards: public (fetched by the site), published and withdrawn by staff from /admin
+CREATE POLICY "Allow public read lunch_boards" ON lunch_boards
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow staff insert lunch_boards" ON lunch_boards
+    FOR INSERT TO authenticated WITH CHECK (is_staff());
+
+CREATE POLICY "Allow staff update lunch_boards" ON lunch_boards
+    FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+
+CREATE POLICY "Allow staff delete lunch_boards" ON lunch_boards
+    FOR DELETE TO authenticated USING (is_staff());
+
+-- Reservations: no policy for anon. Guests book through /book (service role)
+-- and look up their booking with get_reservation (code + phone), see FUNCTION PERMISSIONS
+
+-- Settings: Public read
+CREATE POLICY "Allow public read settings" ON settings
+    FOR SELECT USING (true);
+
+-- Staff: back-office users can list and update reservations (status, notes)
+CREATE POLICY "Allow staff read reservations" ON reservations
+    FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Allow staff update reservations" ON reservations
+    FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+
+-- Staff: back-office users see guest profiles next to the bookings and manage their tags and notes
+CREATE POLICY "Allow staff read guests" ON guests
+    FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Allow staff update guests" ON guests
+    FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+
+-- Staff: back-office users can see the waitlist
+CREATE POLICY "Allow staff read waitlist" ON waitlist_entries
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Staff: back-office users can see the floor plan and who sits where
+CREATE POLICY "Allow staff read restaurant_tables" ON restaurant_tables
+    FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Allow staff read table_combinations" ON table_combinations
+    FOR SELECT TO authenticated USING (is_staff());
+
+CREATE POLICY "Allow staff read table_assignments" ON table_assignments
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Staff: back-office users can see group requests (created and decided through /group-requests)
+CREATE POLICY "Allow staff read group_requests" ON group_requests
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Staff: back-office users can see the guarantees (charged and released through /payments)
+CREATE POLICY "Allow staff read payments" ON payments
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Staff: back-office users can see which reminders went out
+CREATE POLICY "Allow staff read notifications" ON notifications
+    FOR SELECT TO authenticated USING (is_staff());
+
+-- Staff: users can check their own membership (staff are added from the Supabase console)
+CREATE POLICY "Allow read own staff membership" ON staff_members
+    FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- =====================================================
+-- UPDATED_AT TRIGGER
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
@@ -283,19 +2484,219 @@ CREATE TRIGGER update_service_windows_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_service_overrides_updated_at
+    BEFORE UPDATE ON service_overrides
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_guests_updated_at
+    BEFORE UPDATE ON guests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_lunch_boards_updated_at
+    BEFORE UPDATE ON lunch_boards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_menu_items_updated_at
+    BEFORE UPDATE ON menu_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_events_updated_at
+    BEFORE UPDATE ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_reservations_updated_at
     BEFORE UPDATE ON reservations
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_restaurant_tables_updated_at
+    BEFORE UPDATE ON restaurant_tables
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_group_requests_updated_at
+    BEFORE UPDATE ON group_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payments_updated_at
+    BEFORE UPDATE ON payments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+    BEFORE UPDATE ON waitlist_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- WAITLIST TRIGGER
+-- =====================================================
+
+-- Covers freed by a cancellation, no-show, move or smaller party go to the waitlist
+CREATE OR REPLACE FUNCTION release_waitlist_covers()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM offer_waitlist_holds((OLD.start_at AT TIME ZONE get_restaurant_timezone())::DATE, OLD.service_name);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER release_waitlist_on_reservation_change
+    AFTER UPDATE ON reservations
+    FOR EACH ROW
+    WHEN (OLD.status IN ('confirmed', 'pending_payment') AND (
+        NEW.status NOT IN ('confirmed', 'pending_payment')
+        OR NEW.start_at <> OLD.start_at
+        OR NEW.service_name <> OLD.service_name
+        OR NEW.guests < OLD.guests
+    ))
+    EXECUTE FUNCTION release_waitlist_covers();
+
+-- =====================================================
+-- GUEST PROFILE TRIGGERS
+-- =====================================================
+
+-- Every reservation, however it is created (booking, event, group request),
+-- is linked to its guest profile
+CREATE OR REPLACE FUNCTION link_reservation_guest()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.guest_id IS NULL THEN
+        NEW.guest_id := upsert_guest(NEW.name, NEW.phone, NEW.email);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER link_guest_on_reservation_insert
+    BEFORE INSERT ON reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION link_reservation_guest();
+
+-- Visits, no-shows and cancellations follow the reservation statuses
+CREATE OR REPLACE FUNCTION update_guest_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.guest_id IS NOT NULL THEN
+        PERFORM refresh_guest_stats(NEW.guest_id);
+    END IF;
+    IF TG_OP = 'UPDATE' AND OLD.guest_id IS NOT NULL AND OLD.guest_id IS DISTINCT FROM NEW.guest_id THEN
+        PERFORM refresh_guest_stats(OLD.guest_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_guest_stats_on_reservation_change
+    AFTER INSERT OR UPDATE OF status, guests, start_at, guest_id ON reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_guest_stats();
+
+-- =====================================================
+-- GUARANTEE TRIGGER
+-- =====================================================
+
+-- Settles the guarantee once the reservation's outcome is known, whoever
+-- changes the status (guest cancellation, staff dashboard, SQL):
+-- - no-show, or cancellation less than guarantee_cancellation_hours before
+--   the start: the card hold is charged, a deposit is kept
+-- - earlier cancellation: the hold is released, a deposit refunded
+-- - visit: the hold is released, a deposit is deducted from the bill
+-- - a no-show set back to confirmed before the charge went through: held again
+-- - an unpaid guarantee expires with its reservation
+-- Provider calls for *_pending rows are made by the edge functions
+-- (processPaymentActions in _shared/payments.ts).
+CREATE OR REPLACE FUNCTION queue_guarantee_action()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_payment payments%ROWTYPE;
+    v_late BOOLEAN;
+BEGIN
+    SELECT * INTO v_payment FROM payments pm WHERE pm.reservation_id = NEW.id FOR UPDATE;
+
+    IF v_payment.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_late := NEW.start_at - NOW() < get_guarantee_cancellation_hours() * INTERVAL '1 hour';
+
+    IF v_payment.status = 'pending' AND NEW.status = 'cancelled' THEN
+        UPDATE payments SET status = 'expired' WHERE id = v_payment.id;
+    ELSIF v_payment.status = 'authorized' AND (NEW.status = 'no_show' OR (NEW.status = 'cancelled' AND v_late)) THEN
+        UPDATE payments
+        SET status = CASE WHEN v_payment.kind = 'deposit' THEN 'captured' ELSE 'capture_pending' END
+        WHERE id = v_payment.id;
+    ELSIF v_payment.status = 'authorized' AND NEW.status = 'cancelled' THEN
+        UPDATE payments SET status = 'release_pending' WHERE id = v_payment.id;
+    ELSIF v_payment.status = 'authorized' AND NEW.status = 'completed' THEN
+        UPDATE payments
+        SET status = CASE WHEN v_payment.kind = 'deposit' THEN 'captured' ELSE 'release_pending' END
+        WHERE id = v_payment.id;
+    ELSIF v_payment.status = 'capture_pending' AND NEW.status = 'confirmed' THEN
+        UPDATE payments SET status = 'authorized' WHERE id = v_payment.id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_guarantee_on_status_change
+    AFTER UPDATE OF status ON reservations
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION queue_guarantee_action();
+
+-- =====================================================
+-- FUNCTION PERMISSIONS
+-- =====================================================
+
+-- Supabase lets anon and authenticated execute every function by default.
+-- Everything goes through the edge functions (service role) except is_staff()
+-- for the staff policies. Booking in particular only goes through /book and
+-- /events, and the code + phone lookup through /reservation and /cancel, behind
+-- the abuse checks of _shared/protection.ts.
+REVOKE EXECUTE ON ALL FUNCTIONS IN SCHEMA public FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO service_role;
+
+GRANT EXECUTE ON FUNCTION is_staff() TO authenticated;
+
+-- Guest data is never read or written directly with the anon key, whatever the policies
+REVOKE ALL ON reservations, waitlist_entries, group_requests, notifications, table_assignments, rate_limits, payments, guests FROM anon;
+
+-- =====================================================
+-- PHONE NUMBERS
+-- =====================================================
+
+-- Numbers stored before E.164 (nothing to do on a new database, or the second time)
+SELECT normalize_stored_phones();
+
 -- =====================================================
 -- INITIAL SETTINGS
 -- =====================================================
 
 INSERT INTO settings (key, value) VALUES
 ('restaurant_name', '"La Jardinerie"'),
-('max_group_size', '20'),
+('max_group_size', '12'),
 ('advance_booking_days', '30'),
 ('contact_email', '"contact@lajardinerie.fr"'),
-('contact_phone', '"+33400000000"')
+('contact_phone', '"+33400000000"'),
+('address', '"9 bis Boulevard de Clairfont, 66350 Toulouges"'),
+('email_from', '"reservations@lajardinerie.fr"'),
+('timezone', '"Europe/Paris"'),
+('waitlist_hold_minutes', '30'),
+('reminder_hours_before', '24'),
+('max_active_reservations_per_phone', '3'),
+('booking_lead_minutes', '60'),
+('booking_cutoff_minutes', 'null'),
+('guarantee_rules', '[]'),
+('guarantee_cancellation_hours', '24'),
+('payment_hold_minutes', '15'),
+('no_show_policy', 'null'),
+('allowed_origins', '[]')
 ON CONFLICT (key) DO NOTHING;
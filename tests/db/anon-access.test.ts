@@ -0,0 +1,104 @@
+import type pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type TestDatabase, book, createTestDatabase, nextDate, phone, rollback, slotAt } from "../support/database";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+// Runs a statement with the anon key's role; a refusal leaves the transaction usable
+async function asAnon(client: pg.PoolClient, sql: string, params: unknown[] = []) {
+  await client.query("SAVEPOINT anon");
+  await client.query("SET LOCAL ROLE anon");
+  try {
+    return await client.query(sql, params);
+  } catch (error) {
+    await client.query("ROLLBACK TO SAVEPOINT anon");
+    throw error;
+  } finally {
+    await client.query("RESET ROLE");
+  }
+}
+
+const PERMISSION_DENIED = { code: "42501" };
+
+describe("anon key", () => {
+  it("cannot read reservations, guests or payments", () =>
+    rollback(db, async (client) => {
+      await book(client, { service: "soir", startAt: slotAt(nextDate(5), "19:00"), guests: 2, phone: phone(1) });
+
+      // Public tables stay readable: the refusals below are the grants of these three
+      expect((await asAnon(client, "SELECT key FROM settings")).rows.length).toBeGreaterThan(0);
+      for (const table of ["reservations", "guests", "payments"]) {
+        await expect(asAnon(client, `SELECT * FROM ${table}`)).rejects.toMatchObject(PERMISSION_DENIED);
+      }
+    }));
+
+  it("cannot write reservations or call book_reservation", () =>
+    rollback(db, async (client) => {
+      await expect(
+        asAnon(
+          client,
+          `INSERT INTO reservations (code, service_name, start_at, end_at, guests, name, phone)
+           VALUES ('AAAAAA', 'soir', NOW(), NOW(), 2, 'Test', '+33612345678')`
+        )
+      ).rejects.toMatchObject(PERMISSION_DENIED);
+      await expect(
+        asAnon(client, "SELECT * FROM book_reservation('soir', NOW(), 2, 'Test', '+33612345678')")
+      ).rejects.toMatchObject(PERMISSION_DENIED);
+    }));
+
+  it("cannot call get_reservation, which only /reservation calls behind its rate limits", () =>
+    rollback(db, async (client) => {
+      const { code } = await book(client, { service: "soir", startAt: slotAt(nextDate(5), "19:00"), guests: 2, phone: phone(1) });
+
+      await expect(
+        asAnon(client, "SELECT * FROM get_reservation($1, $2)", [code, phone(1)])
+      ).rejects.toMatchObject(PERMISSION_DENIED);
+    }));
+});
+
+describe("get_reservation", () => {
+  it("finds a reservation from its code and phone number only", () =>
+    rollback(db, async (client) => {
+      const friday = nextDate(5);
+      const first = await book(client, { service: "soir", startAt: slotAt(friday, "19:00"), guests: 2, phone: "+33612345678" });
+      const second = await book(client, { service: "soir", startAt: slotAt(friday, "20:00"), guests: 4, phone: phone(2) });
+
+      // As /reservation calls it (service role)
+      const lookup = async (code: string, phoneNumber: string) =>
+        (await client.query("SELECT * FROM get_reservation($1, $2)", [code, phoneNumber])).rows;
+
+      // The number as the guest types it, the code in lower case
+      expect(await lookup(` ${first.code!.toLowerCase()} `, "06 12 34 56 78")).toEqual([
+        expect.objectContaining({ code: first.code, guests: 2, status: "confirmed" })
+      ]);
+      expect(await lookup(second.code!, phone(2))).toEqual([expect.objectContaining({ code: second.code, guests: 4 })]);
+
+      // Code of one reservation, phone number of the other
+      expect(await lookup(first.code!, phone(2))).toEqual([]);
+      expect(await lookup(second.code!, "+33612345678")).toEqual([]);
+      expect(await lookup("", "")).toEqual([]);
+
+      // Name, schedule and guarantee only: no phone number or email
+      const [row] = await lookup(first.code!, "+33612345678");
+      expect(Object.keys(row).sort()).toEqual([
+        "code",
+        "end_at",
+        "free_cancellation_until",
+        "guarantee_amount",
+        "guarantee_kind",
+        "guests",
+        "name",
+        "service_name",
+        "start_at",
+        "status"
+      ]);
+    }));
+});
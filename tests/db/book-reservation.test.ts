@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  type TestDatabase,
+  book,
+  createTestDatabase,
+  nextDate,
+  phone,
+  rollback,
+  slotAt
+} from "../support/database";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+// Next Friday: lunch and dinner
+const friday = nextDate(5);
+
+describe("book_reservation", () => {
+  it("books a slot get_slots offers, with its tables", () =>
+    rollback(db, async (client) => {
+      const startAt = slotAt(friday, "19:30");
+      const slot = async () =>
+        (await client.query("SELECT * FROM get_slots($1, 2, 'soir') WHERE start_at = $2", [friday, startAt])).rows[0];
+      const before = await slot();
+
+      const result = await book(client, { service: "soir", startAt, guests: 4, phone: "06 12 34 56 78" });
+
+      expect(result).toMatchObject({ ok: true, error: null, replayed: false, payment_required: false });
+      expect(result.code).toMatch(/^[A-Z2-9]{6}$/);
+
+      const { rows } = await client.query(
+        `SELECT r.status, r.phone, r.end_at, SUM(t.seats)::int AS seats
+         FROM reservations r
+         JOIN table_assignments ta ON ta.reservation_id = r.id
+         JOIN restaurant_tables t ON t.id = ta.table_id
+         WHERE r.id = $1
+         GROUP BY r.id`,
+        [result.reservation_id]
+      );
+      expect(rows[0]).toMatchObject({ status: "confirmed", phone: "+33612345678" });
+      expect(rows[0].end_at.toISOString()).toBe(slotAt(friday, "20:30"));
+      expect(rows[0].seats).toBeGreaterThanOrEqual(4);
+
+      expect((await slot()).available_capacity).toBe(before.available_capacity - 4);
+    }));
+
+  it("refuses a time off the slot grid", () =>
+    rollback(db, async (client) => {
+      const result = await book(client, { service: "soir", startAt: slotAt(friday, "19:10"), guests: 2, phone: phone(1) });
+
+      expect(result).toMatchObject({ ok: false, error: "Créneau non disponible" });
+    }));
+
+  it("refuses a day without the service", () =>
+    rollback(db, async (client) => {
+      const monday = nextDate(1);
+      const tuesday = nextDate(2);
+
+      expect(await book(client, { service: "soir", startAt: slotAt(monday, "19:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Créneau non disponible" });
+      // Lunch is served Wednesday to Friday
+      expect(await book(client, { service: "midi", startAt: slotAt(tuesday, "12:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Créneau non disponible" });
+    }));
+
+  it("refuses closed dates and services", () =>
+    rollback(db, async (client) => {
+      const saturday = nextDate(6);
+      await client.query("INSERT INTO closures (start_date, end_date) VALUES ($1, $1)", [friday]);
+      await client.query("INSERT INTO closures (start_date, end_date, service_name) VALUES ($1, $1, 'soir')", [saturday]);
+
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "19:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Restaurant fermé cette date" });
+      expect(await book(client, { service: "soir", startAt: slotAt(saturday, "19:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Service fermé cette date" });
+    }));
+
+  it("refuses slots inside the lead time or past the booking window", () =>
+    rollback(db, async (client) => {
+      await client.query("UPDATE settings SET value = '100000' WHERE key = 'booking_lead_minutes'");
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "19:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Réservation en ligne jusqu'à 100000 minutes avant le créneau" });
+
+      await client.query("UPDATE settings SET value = '60' WHERE key = 'booking_lead_minutes'");
+      await client.query("UPDATE settings SET value = '1' WHERE key = 'advance_booking_days'");
+      const later = nextDate(5, 9);
+      expect(await book(client, { service: "soir", startAt: slotAt(later, "19:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Réservation limitée à 1 jours à l'avance" });
+    }));
+
+  it("sends parties above max_group_size to a group request", () =>
+    rollback(db, async (client) => {
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "19:00"), guests: 13, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Au-delà de 12 personnes, faites une demande de groupe" });
+    }));
+
+  it("refuses a missing name or an invalid phone number", () =>
+    rollback(db, async (client) => {
+      const startAt = slotAt(friday, "19:00");
+
+      expect(await book(client, { service: "soir", startAt, guests: 2, phone: "12" }))
+        .toMatchObject({ ok: false, error: "Nom et téléphone requis" });
+      expect(await book(client, { service: "soir", startAt, guests: 2, phone: phone(1), name: " " }))
+        .toMatchObject({ ok: false, error: "Nom et téléphone requis" });
+    }));
+
+  it("refuses a second table for the same phone at an overlapping time", () =>
+    rollback(db, async (client) => {
+      await book(client, { service: "soir", startAt: slotAt(friday, "19:00"), guests: 2, phone: phone(1) });
+
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "19:30"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error_code: "duplicate_booking" });
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "20:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: true });
+    }));
+
+  it("caps the upcoming reservations of a phone number", () =>
+    rollback(db, async (client) => {
+      for (const dow of [2, 3, 4]) {
+        expect(await book(client, { service: "soir", startAt: slotAt(nextDate(dow), "19:00"), guests: 2, phone: phone(1) }))
+          .toMatchObject({ ok: true });
+      }
+
+      expect(await book(client, { service: "soir", startAt: slotAt(nextDate(6), "19:00"), guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error_code: "too_many_reservations" });
+    }));
+
+  it("returns the first booking when an attempt is sent again", () =>
+    rollback(db, async (client) => {
+      const attempt = {
+        service: "soir",
+        startAt: slotAt(friday, "19:00"),
+        guests: 2,
+        phone: phone(1),
+        idempotencyKey: "5b0d7a52-2f1e-4c55-9d1e-4f1c2a7b8e90"
+      };
+
+      const first = await book(client, attempt);
+      const again = await book(client, attempt);
+
+      expect(again).toMatchObject({ ok: true, replayed: true, code: first.code, reservation_id: first.reservation_id });
+      expect(await book(client, { ...attempt, phone: phone(2) }))
+        .toMatchObject({ ok: false, error: "Cette demande de réservation a déjà été envoyée" });
+
+      const { rows } = await client.query("SELECT COUNT(*)::int AS count FROM reservations");
+      expect(rows[0].count).toBe(1);
+    }));
+
+  it("stops at the capacity of the service", () =>
+    rollback(db, async (client) => {
+      await client.query("UPDATE service_windows SET capacity = 6 WHERE name = 'soir' AND dow = 5");
+      const startAt = slotAt(friday, "19:00");
+
+      expect(await book(client, { service: "soir", startAt, guests: 4, phone: phone(1) })).toMatchObject({ ok: true });
+      expect(await book(client, { service: "soir", startAt, guests: 4, phone: phone(2) }))
+        .toMatchObject({ ok: false, error: "Capacité insuffisante pour ce créneau" });
+      // The meal lasts an hour: 19:30 overlaps, 20:00 does not
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "19:30"), guests: 4, phone: phone(3) }))
+        .toMatchObject({ ok: false, error: "Capacité insuffisante pour ce créneau" });
+      expect(await book(client, { service: "soir", startAt: slotAt(friday, "20:00"), guests: 4, phone: phone(4) }))
+        .toMatchObject({ ok: true });
+      expect(await book(client, { service: "soir", startAt, guests: 2, phone: phone(5) })).toMatchObject({ ok: true });
+    }));
+});
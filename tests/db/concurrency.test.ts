@@ -0,0 +1,132 @@
+import type pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type TestDatabase, book, createTestDatabase, nextDate, phone, slotAt } from "../support/database";
+
+// Bookings here commit, so the file has a database of its own
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+describe("book_reservation under concurrent calls", () => {
+  it("gives the last seats to one booking only", async () => {
+    const saturday = nextDate(6);
+    const startAt = slotAt(saturday, "20:00");
+    await db.pool.query("UPDATE service_windows SET capacity = 6 WHERE name = 'soir' AND dow = 6");
+    expect(await book(db.pool, { service: "soir", startAt, guests: 4, phone: phone(0) })).toMatchObject({ ok: true });
+
+    // Each call on its own connection, all in flight at once
+    const results = await Promise.all(
+      Array.from({ length: 8 }, (_, i) => book(db.pool, { service: "soir", startAt, guests: 2, phone: phone(i + 1) }))
+    );
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(results.filter((result) => !result.ok).map((result) => result.error)).toEqual(
+      Array(7).fill("Capacité insuffisante pour ce créneau")
+    );
+
+    const { rows: covers } = await db.pool.query(
+      "SELECT SUM(guests)::int AS guests FROM reservations WHERE start_at = $1 AND status = 'confirmed'",
+      [startAt]
+    );
+    expect(covers[0].guests).toBe(6);
+
+    const { rows: tables } = await db.pool.query(
+      `SELECT ta.table_id
+       FROM table_assignments ta
+       JOIN reservations r ON r.id = ta.reservation_id
+       WHERE r.start_at = $1 AND r.status = 'confirmed'
+       GROUP BY ta.table_id
+       HAVING COUNT(*) > 1`,
+      [startAt]
+    );
+    expect(tables).toEqual([]);
+  });
+
+  it("seats parties on distinct tables when they race for the last ones", async () => {
+    const thursday = nextDate(4);
+    const startAt = slotAt(thursday, "19:00");
+    // Keep two 2-seat tables: three parties of two for two tables
+    await db.pool.query(
+      `UPDATE restaurant_tables SET is_active = label IN (
+         SELECT label FROM restaurant_tables WHERE seats = 2 ORDER BY label LIMIT 2
+       )`
+    );
+    await db.pool.query("UPDATE table_combinations SET is_active = FALSE");
+
+    const results = await Promise.all(
+      Array.from({ length: 3 }, (_, i) => book(db.pool, { service: "soir", startAt, guests: 2, phone: phone(i + 20) }))
+    );
+
+    expect(results.filter((result) => result.ok)).toHaveLength(2);
+    expect(results.find((result) => !result.ok)?.error).toBe("Aucune table disponible pour ce créneau");
+
+    const { rows } = await db.pool.query(
+      `SELECT COUNT(DISTINCT ta.table_id)::int AS tables, COUNT(*)::int AS assignments
+       FROM table_assignments ta
+       JOIN reservations r ON r.id = ta.reservation_id
+       WHERE r.start_at = $1`,
+      [startAt]
+    );
+    expect(rows[0]).toEqual({ tables: 2, assignments: 2 });
+  });
+});
+
+describe("save_closure and book_reservation under concurrent calls", () => {
+  const saveClosure = async (client: pg.ClientBase | pg.Pool, date: string) =>
+    (
+      await client.query<{ closure: { id: string } | null; conflicts: { code: string }[] }>(
+        "SELECT * FROM save_closure(NULL, $1, $1, 'soir', 'Test')",
+        [date]
+      )
+    ).rows[0];
+
+  it("reports a booking that commits while the closure waits", async () => {
+    const friday = nextDate(5);
+    const booking = await db.pool.connect();
+    try {
+      await booking.query("BEGIN");
+      const { code } = await book(booking, { service: "soir", startAt: slotAt(friday, "19:00"), guests: 2, phone: phone(30) });
+
+      // Blocked on the lock the booking holds until it commits
+      const closure = saveClosure(db.pool, friday);
+      await booking.query("COMMIT");
+
+      expect(await closure).toEqual({ closure: null, conflicts: [expect.objectContaining({ code })] });
+    } finally {
+      booking.release();
+    }
+
+    const { rows } = await db.pool.query("SELECT id FROM closures WHERE start_date = $1", [friday]);
+    expect(rows).toEqual([]);
+  });
+
+  it("refuses a booking that waits for a closure of its service", async () => {
+    const wednesday = nextDate(3);
+    const closure = await db.pool.connect();
+    try {
+      await closure.query("BEGIN");
+      expect(await saveClosure(closure, wednesday)).toMatchObject({
+        closure: { start_date: wednesday, service_name: "soir" },
+        conflicts: []
+      });
+
+      // Blocked on the lock the closure holds until it commits
+      const booking = book(db.pool, { service: "soir", startAt: slotAt(wednesday, "19:00"), guests: 2, phone: phone(31) });
+      await closure.query("COMMIT");
+
+      expect(await booking).toMatchObject({ ok: false });
+    } finally {
+      closure.release();
+    }
+
+    // Lunch stays open
+    expect(await book(db.pool, { service: "midi", startAt: slotAt(wednesday, "12:00"), guests: 2, phone: phone(32) }))
+      .toMatchObject({ ok: true });
+  });
+});
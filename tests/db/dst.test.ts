@@ -0,0 +1,149 @@
+import type pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getDayOfWeek,
+  getZonedDate,
+  getZonedTime
+} from "../../supabase/functions/_shared/timezone.ts";
+import { type TestDatabase, book, createTestDatabase, phone, rollback, slotAt } from "../support/database";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+// Europe/Paris changes time on the last Sunday of March and of October
+const lastSunday = (year: number, month: number) => {
+  let date = addDays(`${year}-${String(month + 1).padStart(2, "0")}-01`, -1);
+  while (getDayOfWeek(date) !== 0) date = addDays(date, -1);
+  return date;
+};
+
+// Next such Sunday far enough ahead to be booked (lead time)
+const nextChange = (month: number) => {
+  const soon = addDays(getZonedDate(new Date(), DEFAULT_TIMEZONE), 2);
+  const year = Number(soon.slice(0, 4));
+  const date = lastSunday(year, month);
+  return date >= soon ? date : lastSunday(year + 1, month);
+};
+
+// A night service across the change, open for booking that far ahead
+async function openNightService(client: pg.PoolClient, date: string) {
+  await client.query("UPDATE settings SET value = '400' WHERE key = 'advance_booking_days'");
+  await client.query(
+    `INSERT INTO service_overrides
+       (date, name, display_name, start_time, end_time, last_reservation_time, slot_interval, meal_duration)
+     VALUES ($1, 'soir', 'Nuit', '01:00', '05:00', '04:00', 30, 60)`,
+    [date]
+  );
+}
+
+async function slots(client: pg.PoolClient, date: string) {
+  const { rows } = await client.query<{ start_at: Date; end_at: Date; unavailable_reason: string | null }>(
+    "SELECT start_at, end_at, unavailable_reason FROM get_slots($1, 2, 'soir') ORDER BY start_at",
+    [date]
+  );
+  return rows;
+}
+
+const wallClock = (rows: { start_at: Date }[]) => rows.map((row) => getZonedTime(row.start_at, DEFAULT_TIMEZONE));
+
+describe("get_slots on the DST Sundays", () => {
+  it("offers no slot in the hour skipped in spring", () =>
+    rollback(db, async (client) => {
+      await openNightService(client, "2026-03-29");
+
+      const rows = await slots(client, "2026-03-29");
+
+      expect(wallClock(rows)).toEqual(["01:00", "01:30", "03:00", "03:30", "04:00"]);
+      expect(rows.map((row) => row.start_at.toISOString())).toEqual([
+        "2026-03-29T00:00:00.000Z",
+        "2026-03-29T00:30:00.000Z",
+        "2026-03-29T01:00:00.000Z",
+        "2026-03-29T01:30:00.000Z",
+        "2026-03-29T02:00:00.000Z"
+      ]);
+    }));
+
+  it("offers the hour repeated in autumn once, at its second occurrence", () =>
+    rollback(db, async (client) => {
+      await openNightService(client, "2026-10-25");
+
+      const rows = await slots(client, "2026-10-25");
+
+      expect(wallClock(rows)).toEqual(["01:00", "01:30", "02:00", "02:30", "03:00", "03:30", "04:00"]);
+      expect(rows.map((row) => row.start_at.toISOString())).toEqual([
+        "2026-10-24T23:00:00.000Z",
+        "2026-10-24T23:30:00.000Z",
+        "2026-10-25T01:00:00.000Z",
+        "2026-10-25T01:30:00.000Z",
+        "2026-10-25T02:00:00.000Z",
+        "2026-10-25T02:30:00.000Z",
+        "2026-10-25T03:00:00.000Z"
+      ]);
+    }));
+
+  it("keeps meals an hour long across the change", () =>
+    rollback(db, async (client) => {
+      await openNightService(client, "2026-03-29");
+      await openNightService(client, "2026-10-25");
+
+      for (const row of [...(await slots(client, "2026-03-29")), ...(await slots(client, "2026-10-25"))]) {
+        expect(row.end_at.getTime() - row.start_at.getTime()).toBe(3_600_000);
+      }
+    }));
+
+  it("places the evening service at its usual wall-clock time", () =>
+    rollback(db, async (client) => {
+      // Saturdays before the changes, Tuesdays after them
+      for (const date of ["2026-03-28", "2026-03-31", "2026-10-24", "2026-10-27"]) {
+        const { rows } = await client.query("SELECT start_at FROM get_slots($1, 2, 'soir') ORDER BY start_at", [date]);
+        expect(wallClock(rows)).toEqual(["19:00", "19:30", "20:00", "20:30", "21:00", "21:30"]);
+      }
+    }));
+});
+
+describe("book_reservation on the DST Sundays", () => {
+  it("accepts every slot of the spring night and refuses the skipped hour", () =>
+    rollback(db, async (client) => {
+      const date = nextChange(3);
+      await openNightService(client, date);
+      const rows = await slots(client, date);
+
+      expect(rows.every((row) => row.unavailable_reason === null)).toBe(true);
+      for (const [i, row] of rows.entries()) {
+        expect(await book(client, { service: "soir", startAt: row.start_at.toISOString(), guests: 2, phone: phone(i) }))
+          .toMatchObject({ ok: true });
+      }
+
+      // 02:30 does not exist: the instant given for it is 03:30, booked above
+      const { rows: skipped } = await client.query("SELECT ($1::DATE + '02:30'::TIME) AT TIME ZONE 'Europe/Paris' AS start_at", [
+        date
+      ]);
+      expect(getZonedTime(skipped[0].start_at, DEFAULT_TIMEZONE)).toBe("03:30");
+    }));
+
+  it("books the repeated autumn hour at its second occurrence only", () =>
+    rollback(db, async (client) => {
+      const date = nextChange(10);
+      await openNightService(client, date);
+      const second = slotAt(date, "02:30");
+      const first = new Date(new Date(second).getTime() - 3_600_000).toISOString();
+
+      expect(getZonedTime(new Date(first), DEFAULT_TIMEZONE)).toBe("02:30");
+      expect(await book(client, { service: "soir", startAt: first, guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: false, error: "Créneau non disponible" });
+      expect(await book(client, { service: "soir", startAt: second, guests: 2, phone: phone(1) }))
+        .toMatchObject({ ok: true });
+
+      const { rows } = await client.query("SELECT start_at, end_at FROM reservations");
+      expect(rows[0].end_at.getTime() - rows[0].start_at.getTime()).toBe(3_600_000);
+    }));
+});
@@ -0,0 +1,79 @@
+import type pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { type TestDatabase, book, createTestDatabase, nextDate, phone, rollback, slotAt } from "../support/database";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+// A reservation of 4 on Friday evening with its card step completed
+async function bookGuaranteed(client: pg.PoolClient, kind: "card_hold" | "deposit") {
+  await client.query("UPDATE settings SET value = $1 WHERE key = 'guarantee_rules'", [
+    JSON.stringify([{ name: "Test", kind, amount_per_guest: 20 }])
+  ]);
+
+  const startAt = slotAt(nextDate(5), "19:00");
+  const booking = await book(client, { service: "soir", startAt, guests: 4, phone: phone(1) });
+  expect(booking).toMatchObject({ ok: true, payment_required: true });
+
+  await client.query("SELECT * FROM confirm_reservation_payment($1)", [booking.reservation_id]);
+
+  return { code: booking.code!, startAt };
+}
+
+const lookup = async (client: pg.PoolClient, code: string) =>
+  (await client.query("SELECT * FROM get_reservation($1, $2)", [code, phone(1)])).rows[0];
+
+const cancel = async (client: pg.PoolClient, code: string) =>
+  (await client.query("SELECT * FROM cancel_reservation($1, $2)", [code, phone(1)])).rows[0];
+
+describe("guarantees seen by the guest", () => {
+  it("returns the guarantee in force and its free cancellation deadline", () =>
+    rollback(db, async (client) => {
+      const { code, startAt } = await bookGuaranteed(client, "card_hold");
+
+      const reservation = await lookup(client, code);
+
+      expect(reservation).toMatchObject({ status: "confirmed", guarantee_kind: "card_hold", guarantee_amount: "80.00" });
+      expect(reservation.free_cancellation_until.getTime()).toBe(new Date(startAt).getTime() - 24 * 3_600_000);
+    }));
+
+  it("returns no guarantee for a reservation without one", () =>
+    rollback(db, async (client) => {
+      const { code } = await book(client, { service: "soir", startAt: slotAt(nextDate(5), "19:00"), guests: 2, phone: phone(1) });
+
+      expect(await lookup(client, code!)).toMatchObject({
+        guarantee_kind: null,
+        guarantee_amount: null,
+        free_cancellation_until: null
+      });
+    }));
+
+  it("charges nothing on a cancellation before the deadline", () =>
+    rollback(db, async (client) => {
+      const { code } = await bookGuaranteed(client, "card_hold");
+
+      expect(await cancel(client, code)).toEqual({ ok: true, error: null, charged_kind: null, charged_amount: null });
+      expect((await client.query("SELECT status FROM payments")).rows).toEqual([{ status: "release_pending" }]);
+    }));
+
+  it("tells the guest a late cancellation charged the hold or kept the deposit", () =>
+    rollback(db, async (client) => {
+      for (const kind of ["card_hold", "deposit"] as const) {
+        await client.query("SAVEPOINT kind");
+        const { code } = await bookGuaranteed(client, kind);
+        // Every upcoming reservation is inside the cancellation window
+        await client.query("UPDATE settings SET value = '1000' WHERE key = 'guarantee_cancellation_hours'");
+
+        expect(new Date() >= (await lookup(client, code)).free_cancellation_until).toBe(true);
+        expect(await cancel(client, code)).toEqual({ ok: true, error: null, charged_kind: kind, charged_amount: "80.00" });
+        await client.query("ROLLBACK TO SAVEPOINT kind");
+      }
+    }));
+});
@@ -0,0 +1,95 @@
+import type pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { normalizePhone } from "../../supabase/functions/_shared/phone.ts";
+import { type TestDatabase, createTestDatabase, rollback } from "../support/database";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+const normalizeSql = async (client: pg.PoolClient, phone: string) =>
+  (await client.query<{ phone: string }>("SELECT normalize_phone($1) AS phone", [phone])).rows[0].phone;
+
+// A guest profile and one reservation of theirs, as stored before E.164
+async function insertLegacy(client: pg.PoolClient, phone: string, createdAt: string, tags: string[] = []) {
+  const { rows } = await client.query<{ id: string }>(
+    "INSERT INTO guests (phone, name, tags, created_at) VALUES ($1, 'Test', $2, $3) RETURNING id",
+    [phone, tags, createdAt]
+  );
+  await client.query(
+    `INSERT INTO reservations (code, service_name, start_at, end_at, guests, name, phone, status, guest_id)
+     VALUES (substr(md5(random()::TEXT), 1, 6), 'soir', NOW() - INTERVAL '30 days', NOW() - INTERVAL '29 days', 2, 'Test', $1, 'completed', $2)`,
+    [phone, rows[0].id]
+  );
+  return rows[0].id;
+}
+
+describe("normalize_phone", () => {
+  it("gives the number normalizePhone stores, for every country phone.ts knows", () =>
+    rollback(db, async (client) => {
+      const numbers = [
+        "06 12 34 56 78",
+        "04.68.00.00.00",
+        "+33 (0)6 12 34 56 78",
+        "0033 6 12 34 56 78",
+        "+34 612 345 678",
+        "0034 912 345 678",
+        "+376 812 345",
+        "+377 6 12 34 56 78",
+        "+32 (0)470 12 34 56",
+        "+41 (0)79 123 45 67",
+        "+352 621 123 456",
+        "+49 (0)30 1234567",
+        "+31 (0)6 12345678",
+        "+44 (0)20 7946 0958",
+        "+353 (0)85 123 4567",
+        "+39 06 1234 5678",
+        "+351 912 345 678",
+        "+1 (212) 555-0123",
+        "+81 90 1234 5678"
+      ];
+
+      for (const number of numbers) {
+        const stored = normalizePhone(number);
+        expect(stored, number).not.toBeNull();
+        expect(await normalizeSql(client, number), number).toBe(stored);
+      }
+    }));
+});
+
+describe("normalize_stored_phones", () => {
+  it("converts the numbers stored before E.164 and merges the guests they duplicate", () =>
+    rollback(db, async (client) => {
+      const kept = await insertLegacy(client, "06 12 34 56 78", "2024-01-01", ["vip"]);
+      const merged = await insertLegacy(client, "+33 6 12 34 56 78", "2025-01-01", ["allergie"]);
+      const other = await insertLegacy(client, "+44 (0)20 7946 0958", "2025-01-01");
+      const unknown = await insertLegacy(client, "612 345 678", "2025-01-01");
+
+      expect((await client.query("SELECT normalize_stored_phones() AS count")).rows[0].count).toBeGreaterThan(0);
+
+      const { rows: guests } = await client.query("SELECT id, phone, tags, visit_count FROM guests ORDER BY phone");
+      expect(guests).toEqual([
+        { id: kept, phone: "+33612345678", tags: ["allergie", "vip"], visit_count: 2 },
+        { id: other, phone: "+442079460958", tags: [], visit_count: 1 },
+        // No country code or leading 0: left for a correction by hand
+        { id: unknown, phone: "612345678", tags: [], visit_count: 1 }
+      ]);
+      expect(guests.map((guest) => guest.id)).not.toContain(merged);
+
+      const { rows: reservations } = await client.query("SELECT DISTINCT phone, guest_id FROM reservations ORDER BY phone");
+      expect(reservations).toEqual([
+        { phone: "+33612345678", guest_id: kept },
+        { phone: "+442079460958", guest_id: other },
+        { phone: "612345678", guest_id: unknown }
+      ]);
+
+      // Run again (schema.sql re-executed): nothing left to change
+      expect((await client.query("SELECT normalize_stored_phones() AS count")).rows[0].count).toBe(0);
+    }));
+});
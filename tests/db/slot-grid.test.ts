@@ -0,0 +1,184 @@
+import type pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getDayOfWeek,
+  getZonedDate,
+  zonedTimeToUtc
+} from "../../supabase/functions/_shared/timezone.ts";
+import { type BookingResult, type TestDatabase, book, createTestDatabase, phone, rollback } from "../support/database";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await db?.drop();
+});
+
+interface SlotRow {
+  service_name: string;
+  start_at: Date;
+  unavailable_reason: string | null;
+}
+
+// Same draws on every run (mulberry32), so a failure can be replayed
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Every day from today to the end of the booking window, and a few past it
+const today = getZonedDate(new Date(), DEFAULT_TIMEZONE);
+const days = Array.from({ length: 34 }, (_, i) => addDays(today, i));
+
+let phones = 0;
+
+// Tries a booking and undoes it, so every attempt sees the same tables
+async function attempt(client: pg.PoolClient, service: string, startAt: Date, guests: number): Promise<BookingResult> {
+  await client.query("SAVEPOINT attempt");
+  try {
+    return await book(client, { service, startAt: startAt.toISOString(), guests, phone: phone(++phones) });
+  } finally {
+    await client.query("ROLLBACK TO SAVEPOINT attempt");
+  }
+}
+
+async function slots(client: pg.PoolClient, date: string, guests: number): Promise<SlotRow[]> {
+  const { rows } = await client.query<SlotRow>(
+    "SELECT service_name, start_at, unavailable_reason FROM get_slots($1, $2) ORDER BY start_at",
+    [date, guests]
+  );
+  return rows;
+}
+
+// Some reservations already on the book, for varied covers and tables
+async function fillBook(client: pg.PoolClient, next: () => number) {
+  for (const date of days) {
+    for (const slot of await slots(client, date, 1)) {
+      if (slot.unavailable_reason === null && next() < 0.3) {
+        await book(client, {
+          service: slot.service_name,
+          startAt: slot.start_at.toISOString(),
+          guests: 1 + Math.floor(next() * 12),
+          phone: phone(++phones)
+        });
+      }
+    }
+  }
+}
+
+describe("get_slots and book_reservation agree", () => {
+  it("accepts every slot get_slots offers, and refuses the others with its reason", () =>
+    rollback(db, async (client) => {
+      const next = random(20260329);
+      await client.query("UPDATE service_windows SET capacity = 40");
+      await fillBook(client, next);
+
+      let offered = 0;
+      for (const date of days) {
+        const guests = 1 + Math.floor(next() * 12);
+
+        for (const slot of await slots(client, date, guests)) {
+          const result = await attempt(client, slot.service_name, slot.start_at, guests);
+
+          if (slot.unavailable_reason === null) {
+            offered++;
+            expect(result, `${slot.service_name} ${slot.start_at.toISOString()} for ${guests}`).toMatchObject({ ok: true });
+          } else {
+            expect(result, `${slot.service_name} ${slot.start_at.toISOString()} for ${guests}`).toMatchObject({
+              ok: false,
+              error: slot.unavailable_reason
+            });
+          }
+        }
+      }
+
+      // Enough days open in the window for the property to mean something
+      expect(offered).toBeGreaterThan(50);
+    }));
+
+  it("refuses every time off the slot grid", () =>
+    rollback(db, async (client) => {
+      const next = random(20261025);
+
+      for (const date of days.slice(2, 30)) {
+        const offered = (await slots(client, date, 2)).filter((slot) => slot.unavailable_reason === null);
+
+        for (const slot of offered) {
+          // Between two slots (every 5 minutes and one drawn), and half an
+          // hour before or after, off the grid around the service
+          const offsets = [5, 10, 15, 20, 25, 1 + Math.floor(next() * 29), -30, 30];
+          for (const minutes of offsets) {
+            const startAt = new Date(slot.start_at.getTime() + minutes * 60_000);
+            const onGrid = offered.some(
+              (other) => other.service_name === slot.service_name && other.start_at.getTime() === startAt.getTime()
+            );
+            if (onGrid) continue;
+
+            expect(await attempt(client, slot.service_name, startAt, 2), `${slot.service_name} ${startAt.toISOString()}`)
+              .toMatchObject({ ok: false, error: "Créneau non disponible" });
+          }
+        }
+      }
+    }));
+
+  it("refuses the slots of closed days and services", () =>
+    rollback(db, async (client) => {
+      const open = days.slice(2, 30);
+      const offeredBefore = new Map<string, SlotRow[]>();
+      for (const date of open) {
+        offeredBefore.set(date, (await slots(client, date, 2)).filter((slot) => slot.unavailable_reason === null));
+      }
+
+      // One whole day and one dinner closed in each week
+      const closedDays = open.filter((_, i) => i % 7 === 0);
+      const closedDinners = open.filter((_, i) => i % 7 === 3);
+      for (const date of closedDays) {
+        await client.query("INSERT INTO closures (start_date, end_date) VALUES ($1, $1)", [date]);
+      }
+      for (const date of closedDinners) {
+        await client.query("INSERT INTO closures (start_date, end_date, service_name) VALUES ($1, $1, 'soir')", [date]);
+      }
+
+      for (const date of [...closedDays, ...closedDinners]) {
+        const closedService = closedDays.includes(date) ? null : "soir";
+
+        for (const slot of offeredBefore.get(date)!) {
+          const result = await attempt(client, slot.service_name, slot.start_at, 2);
+
+          if (closedService === null) {
+            expect(result).toMatchObject({ ok: false, error: "Restaurant fermé cette date" });
+          } else if (slot.service_name === closedService) {
+            expect(result).toMatchObject({ ok: false, error: "Service fermé cette date" });
+          } else {
+            expect(result).toMatchObject({ ok: true });
+          }
+        }
+      }
+    }));
+
+  it("refuses the usual times on the days without a service", () =>
+    rollback(db, async (client) => {
+      // Sundays and Mondays; lunch on Tuesdays and Saturdays
+      for (const date of days.slice(2, 30)) {
+        const dow = getDayOfWeek(date);
+        const closed = dow === 0 || dow === 1 ? ["midi", "soir"] : dow === 2 || dow === 6 ? ["midi"] : [];
+
+        for (const service of closed) {
+          for (const time of service === "midi" ? ["12:00", "13:30"] : ["19:00", "21:30"]) {
+            const startAt = zonedTimeToUtc(date, time, DEFAULT_TIMEZONE);
+            expect(await attempt(client, service, startAt, 2), `${service} ${date} ${time}`)
+              .toMatchObject({ ok: false, error: "Créneau non disponible" });
+          }
+        }
+      }
+    }));
+});
@@ -0,0 +1,76 @@
+import puppeteer, { type Browser, type Page } from "puppeteer";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_TIMEZONE, getZonedDate } from "../../supabase/functions/_shared/timezone.ts";
+import { type TestDatabase, createTestDatabase, nextDate, slotAt } from "../support/database";
+import { type FunctionsServer, startFunctionsServer } from "../support/functions-server";
+import { createPgSupabase } from "../support/pg-supabase";
+import { type Site, startSite } from "../support/site";
+
+let db: TestDatabase;
+let functions: FunctionsServer;
+let site: Site;
+let browser: Browser;
+let page: Page;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  functions = await startFunctionsServer({
+    supabase: createPgSupabase(db.pool),
+    emailProvider: null,
+    paymentProvider: null,
+    siteUrl: undefined
+  });
+  site = await startSite(functions.url);
+  browser = await puppeteer.launch({ headless: true, args: ["--no-sandbox"] });
+  page = await browser.newPage();
+});
+
+afterAll(async () => {
+  await browser?.close();
+  await site?.stop();
+  await functions?.close();
+  await db?.drop();
+});
+
+describe("reservation widget", () => {
+  it("books a table through the four steps", async () => {
+    const date = nextDate(5);
+    const startAt = slotAt(date, "19:30");
+
+    await page.goto(`${site.url}/reserver`, { waitUntil: "networkidle0", timeout: 120_000 });
+
+    // Step 1: party size, then a day of the calendar once its availability is in
+    await page.select("#reservation-guests", "2");
+    if (date.slice(0, 7) !== getZonedDate(new Date(), DEFAULT_TIMEZONE).slice(0, 7)) {
+      await page.click('#reservation-calendar .calendar-nav[data-nav="1"]');
+    }
+    const day = `#reservation-calendar .calendar-day[data-date="${date}"]:not(.is-loading):not([disabled])`;
+    await page.waitForSelector(day);
+    await page.click(day);
+    await page.waitForSelector("#btn-check-availability:not([disabled])");
+    await page.click("#btn-check-availability");
+
+    // Step 2: the slots /availability returned for that day
+    const slot = `#step-2.active .slot-btn[data-start="${startAt}"]`;
+    await page.waitForSelector(slot);
+    await page.click(slot);
+
+    // Step 3: contact details, filled in at a person's pace (checkFormTiming)
+    await page.waitForSelector("#step-3.active");
+    await page.type("#form-name", "Camille Test");
+    await page.type("#form-phone", "06 12 34 56 78");
+    await new Promise((resolve) => setTimeout(resolve, 3_200));
+    await page.click("#btn-submit");
+
+    // Step 4: the code of the reservation made in the database
+    await page.waitForSelector("#step-4.active", { timeout: 15_000 });
+    const code = await page.$eval("#confirmation-code", (el) => el.textContent?.trim());
+
+    const { rows } = await db.pool.query("SELECT name, phone, guests, start_at, status FROM reservations WHERE code = $1", [
+      code
+    ]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ name: "Camille Test", phone: "+33612345678", guests: 2, status: "confirmed" });
+    expect(rows[0].start_at.toISOString()).toBe(startAt);
+  });
+});
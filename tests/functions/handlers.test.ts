@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { handleAvailability } from "../../supabase/functions/availability/handler.ts";
+import { handleBook } from "../../supabase/functions/book/handler.ts";
+import type { HandlerContext } from "../../supabase/functions/_shared/handler-context.ts";
+import { createFakePaymentProvider } from "../../supabase/functions/_shared/payments.ts";
+import { DEFAULT_TIMEZONE, addDays, getZonedDate } from "../../supabase/functions/_shared/timezone.ts";
+import { createStubSupabase } from "../support/stub-supabase";
+
+const RESERVATION_ID = "8d6f1a3e-5b7c-4e2a-9f10-2c3d4e5f6a7b";
+const SITE_URL = "http://127.0.0.1:4321/lajardinerie_website";
+
+const date = addDays(getZonedDate(new Date(), DEFAULT_TIMEZONE), 3);
+
+const settings = () => [
+  { key: "timezone", value: "Europe/Paris" },
+  { key: "max_group_size", value: 10 },
+  { key: "allowed_origins", value: [] },
+  { key: "advance_booking_days", value: 30 }
+];
+
+// Row of book_reservation
+const booked = (overrides = {}) => [
+  {
+    ok: true,
+    code: "K7M2QX",
+    reservation_id: RESERVATION_ID,
+    error: null,
+    error_code: null,
+    replayed: false,
+    payment_required: false,
+    ...overrides
+  }
+];
+
+// Service role client answering like the database, with rate limits not reached
+const stub = (tables: Record<string, any[]> = {}, functions: Record<string, (params: any) => unknown> = {}) =>
+  createStubSupabase(
+    { settings: settings(), ...tables },
+    { hit_rate_limit: () => true, book_reservation: () => booked(), ...functions }
+  );
+
+const context = (supabase: HandlerContext["supabase"], overrides: Partial<HandlerContext> = {}): HandlerContext => ({
+  supabase,
+  emailProvider: null,
+  paymentProvider: null,
+  siteUrl: SITE_URL,
+  ...overrides
+});
+
+const bookRequest = (body: Record<string, unknown> = {}) =>
+  new Request("http://127.0.0.1/functions/v1/book", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Forwarded-For": "203.0.113.7" },
+    body: JSON.stringify({
+      start_at: "2030-01-04T19:00:00.000Z",
+      service_name: "soir",
+      guests: 2,
+      name: " Camille ",
+      phone: "06 12 34 56 78",
+      website: "",
+      fill_time_ms: 8_000,
+      idempotency_key: "5b0d7a52-2f1e-4c55-9d1e-4f1c2a7b8e90",
+      ...body
+    })
+  });
+
+describe("handleAvailability", () => {
+  it("returns the booking limits without parameters", async () => {
+    const { client } = stub();
+
+    const response = await handleAvailability(new Request("http://127.0.0.1/functions/v1/availability"), context(client));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ timezone: "Europe/Paris", max_group_size: 10 });
+  });
+
+  it("lists the slots get_slots leaves open for each service of the day", async () => {
+    const { client, rpcCalls } = stub({ closures: [] }, {
+      get_service_windows: () => [{ name: "soir", display_name: "Dîner" }],
+      get_slots: () => [
+        { service_name: "soir", start_at: "2030-01-04T18:00:00+00:00", available_capacity: 100, unavailable_reason: null },
+        {
+          service_name: "soir",
+          start_at: "2030-01-04T18:30:00+00:00",
+          available_capacity: 0,
+          unavailable_reason: "Capacité insuffisante pour ce créneau"
+        }
+      ]
+    });
+
+    const response = await handleAvailability(
+      new Request(`http://127.0.0.1/functions/v1/availability?date=${date}&guests=2`),
+      context(client)
+    );
+
+    expect(await response.json()).toEqual({
+      date,
+      timezone: "Europe/Paris",
+      services: [
+        { name: "soir", display_name: "Dîner", slots: [{ start_at: "2030-01-04T18:00:00+00:00", available_capacity: 100 }] }
+      ]
+    });
+    expect(rpcCalls.find(({ fn }) => fn === "get_slots")?.params).toEqual({ p_date: date, p_guests: 2 });
+  });
+
+  it("refuses a date that does not exist before querying the database", async () => {
+    for (const query of ["date=2030-02-31&guests=2", "from=2030-02-28&to=2030-02-30&guests=2", "date=2030-13-01&guests=2"]) {
+      const { client, rpcCalls } = stub();
+
+      const response = await handleAvailability(
+        new Request(`http://127.0.0.1/functions/v1/availability?${query}`),
+        context(client)
+      );
+
+      expect(response.status, query).toBe(400);
+      expect(await response.json()).toEqual({ error: "Invalid date format" });
+      expect(rpcCalls.map(({ fn }) => fn)).toEqual(["hit_rate_limit"]);
+    }
+  });
+
+  it("refuses a party above max_group_size", async () => {
+    const { client } = stub();
+
+    const response = await handleAvailability(
+      new Request(`http://127.0.0.1/functions/v1/availability?date=${date}&guests=11`),
+      context(client)
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects an IP over its rate limit", async () => {
+    const { client, rpcCalls } = stub({}, { hit_rate_limit: () => false });
+
+    const response = await handleAvailability(
+      new Request(`http://127.0.0.1/functions/v1/availability?date=${date}&guests=2`),
+      context(client)
+    );
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ error_code: "rate_limited" });
+    expect(rpcCalls.map(({ fn }) => fn)).toEqual(["hit_rate_limit"]);
+  });
+});
+
+describe("handleBook", () => {
+  it("books the table and returns its code", async () => {
+    const { client, rpcCalls } = stub();
+
+    const response = await handleBook(bookRequest(), context(client));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, code: "K7M2QX", reservation_id: RESERVATION_ID });
+    expect(rpcCalls.map(({ fn }) => fn)).toEqual(["hit_rate_limit", "hit_rate_limit", "book_reservation"]);
+    expect(rpcCalls[2].params).toMatchObject({
+      p_service_name: "soir",
+      p_start_at: "2030-01-04T19:00:00.000Z",
+      p_guests: 2,
+      p_name: "Camille",
+      p_phone: "+33612345678",
+      p_idempotency_key: "5b0d7a52-2f1e-4c55-9d1e-4f1c2a7b8e90"
+    });
+  });
+
+  it("rejects a client over its rate limit before booking", async () => {
+    const { client, rpcCalls } = stub({}, { hit_rate_limit: () => false });
+
+    const response = await handleBook(bookRequest(), context(client));
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ ok: false, error_code: "rate_limited" });
+    expect(rpcCalls.map(({ fn }) => fn)).toEqual(["hit_rate_limit"]);
+  });
+
+  it("rejects a phone number over its rate limit", async () => {
+    const { client, rpcCalls } = stub({}, { hit_rate_limit: ({ p_key }) => p_key.startsWith("book:ip:") });
+
+    const response = await handleBook(bookRequest(), context(client));
+
+    expect(response.status).toBe(429);
+    expect(rpcCalls.some(({ fn }) => fn === "book_reservation")).toBe(false);
+  });
+
+  it("sends the guest to the checkout when the slot needs a guarantee", async () => {
+    const payments = [
+      { id: "pay-1", reservation_id: RESERVATION_ID, kind: "card_hold", amount: "20.00", rule: "Samedi soir", checkout_url: null }
+    ];
+    const { client } = stub({ payments }, { book_reservation: () => booked({ payment_required: true }) });
+    const paymentProvider = createFakePaymentProvider();
+
+    const response = await handleBook(bookRequest(), context(client, { paymentProvider }));
+
+    const checkoutUrl = `${SITE_URL}/reserver?payment=${RESERVATION_ID}`;
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ok: true,
+      code: "K7M2QX",
+      reservation_id: RESERVATION_ID,
+      payment: { kind: "card_hold", amount: 20, checkout_url: checkoutUrl }
+    });
+    expect(paymentProvider.operations).toEqual([
+      { operation: "checkout", provider_ref: `fake_${RESERVATION_ID}`, kind: "card_hold", amount: 20 }
+    ]);
+    expect(payments[0]).toMatchObject({ provider: "fake", provider_ref: `fake_${RESERVATION_ID}`, checkout_url: checkoutUrl });
+  });
+
+  it("cancels a reservation needing a guarantee when no payment provider is set up", async () => {
+    const reservations = [{ id: RESERVATION_ID, status: "pending_payment" }];
+    const { client } = stub({ reservations }, { book_reservation: () => booked({ payment_required: true }) });
+
+    const response = await handleBook(bookRequest(), context(client));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ ok: false });
+    expect(reservations[0].status).toBe("cancelled");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Database of a test file
+ *
+ * A clone of the template global-setup.ts loads supabase/schema.sql into:
+ * initial data only (service windows, tables, settings). Tests that only
+ * read or book run in `rollback`, so they see the initial data too.
+ */
+
+import { randomUUID } from "node:crypto";
+import pg from "pg";
+import { inject } from "vitest";
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getDayOfWeek,
+  getZonedDate,
+  zonedTimeToUtc
+} from "../../supabase/functions/_shared/timezone.ts";
+import { TEMPLATE_DATABASE, withDatabase } from "./template";
+
+export interface TestDatabase {
+  url: string;
+  pool: pg.Pool; // as the postgres superuser
+  drop: () => Promise<void>;
+}
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const adminUrl = inject("databaseUrl");
+  const name = `lajardinerie_test_${randomUUID().replace(/-/g, "").slice(0, 12)}`;
+
+  const admin = new pg.Client({ connectionString: adminUrl });
+  await admin.connect();
+  await admin.query(`CREATE DATABASE ${name} TEMPLATE ${TEMPLATE_DATABASE}`);
+
+  const url = withDatabase(adminUrl, name);
+  const pool = new pg.Pool({ connectionString: url, max: 20 });
+
+  return {
+    url,
+    pool,
+    drop: async () => {
+      await pool.end();
+      await admin.query(`DROP DATABASE IF EXISTS ${name}`);
+      await admin.end();
+    }
+  };
+}
+
+/**
+ * Runs `fn` in a transaction that is rolled back, whatever happens
+ */
+export async function rollback<T>(db: TestDatabase, fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await db.pool.connect();
+  try {
+    await client.query("BEGIN");
+    return await fn(client);
+  } finally {
+    await client.query("ROLLBACK");
+    client.release();
+  }
+}
+
+/**
+ * Next restaurant date falling on `dow` (0 = Sunday), at least `minDays` away
+ */
+export function nextDate(dow: number, minDays = 2): string {
+  let date = addDays(getZonedDate(new Date(), DEFAULT_TIMEZONE), minDays);
+  while (getDayOfWeek(date) !== dow) date = addDays(date, 1);
+  return date;
+}
+
+/**
+ * Instant of a wall-clock time at the restaurant (ISO string)
+ */
+export const slotAt = (date: string, time: string) => zonedTimeToUtc(date, time, DEFAULT_TIMEZONE).toISOString();
+
+export interface BookingResult {
+  ok: boolean;
+  code: string | null;
+  reservation_id: string | null;
+  error: string | null;
+  error_code: string | null;
+  replayed: boolean;
+  payment_required: boolean;
+}
+
+/**
+ * book_reservation as /book calls it (service role)
+ */
+export async function book(
+  client: pg.ClientBase | pg.Pool,
+  booking: { service: string; startAt: string; guests: number; phone: string; name?: string; idempotencyKey?: string }
+): Promise<BookingResult> {
+  const { rows } = await client.query<BookingResult>(
+    `SELECT * FROM book_reservation(
+       p_service_name => $1, p_start_at => $2, p_guests => $3, p_name => $4, p_phone => $5, p_idempotency_key => $6
+     )`,
+    [booking.service, booking.startAt, booking.guests, booking.name ?? "Test", booking.phone, booking.idempotencyKey ?? null]
+  );
+  return rows[0];
+}
+
+/**
+ * A distinct valid French mobile number per `n`
+ */
+export const phone = (n: number) => `+336${String(10000000 + n).slice(-8)}`;
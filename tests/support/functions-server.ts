@@ -0,0 +1,55 @@
+/**
+ * /functions/v1/availability and /functions/v1/book served from Node
+ *
+ * Runs the edge function handlers with a context of the test's choosing,
+ * on a free local port, for the widget to call as PUBLIC_SUPABASE_URL.
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { handleAvailability } from "../../supabase/functions/availability/handler.ts";
+import { handleBook } from "../../supabase/functions/book/handler.ts";
+import type { HandlerContext } from "../../supabase/functions/_shared/handler-context.ts";
+
+const handlers: Record<string, (req: Request, ctx: HandlerContext) => Promise<Response>> = {
+  "/functions/v1/availability": handleAvailability,
+  "/functions/v1/book": handleBook
+};
+
+export interface FunctionsServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+export async function startFunctionsServer(ctx: HandlerContext): Promise<FunctionsServer> {
+  const server = createServer(async (incoming, outgoing) => {
+    const url = new URL(incoming.url ?? "/", "http://127.0.0.1");
+    const handler = handlers[url.pathname];
+    if (!handler) {
+      outgoing.writeHead(404).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of incoming) chunks.push(chunk);
+
+    const req = new Request(url, {
+      method: incoming.method,
+      headers: Object.entries(incoming.headers).flatMap(([name, value]) =>
+        value === undefined ? [] : [[name, String(value)] as [string, string]]
+      ),
+      body: ["GET", "HEAD"].includes(incoming.method ?? "GET") ? undefined : Buffer.concat(chunks)
+    });
+    const res = await handler(req, ctx);
+
+    outgoing.writeHead(res.status, Object.fromEntries(res.headers));
+    outgoing.end(Buffer.from(await res.arrayBuffer()));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Supabase client backed by a Postgres pool
+ *
+ * Covers the part of supabase-js the handlers use: `from()` with select,
+ * insert and update, the usual filters, `single()`/`maybeSingle()`, and
+ * `rpc()` with named parameters. Results come back like PostgREST's (dates
+ * as YYYY-MM-DD, NUMERIC as strings, `{ data, error }` without throwing), so
+ * a handler runs against the test database as against the local stack.
+ */
+
+import pg from "pg";
+import type { HandlerContext } from "../../supabase/functions/_shared/handler-context.ts";
+
+type Client = HandlerContext["supabase"];
+
+interface Result {
+  data: any;
+  error: { message: string; code?: string } | null;
+}
+
+// DATE stays a calendar date, as in the JSON of PostgREST
+const types = {
+  getTypeParser: (oid: number, format?: any) =>
+    oid === pg.types.builtins.DATE ? (value: string) => value : pg.types.getTypeParser(oid, format)
+};
+
+const run = async (pool: pg.Pool, text: string, values: unknown[]) => {
+  try {
+    return { rows: (await pool.query({ text, values, types })).rows, error: null };
+  } catch (error) {
+    return { rows: [], error: { message: (error as Error).message, code: (error as { code?: string }).code } };
+  }
+};
+
+class Query implements PromiseLike<Result> {
+  private filters: string[] = [];
+  private values: unknown[] = [];
+  private columns = "*";
+  private changes: Record<string, unknown> | null = null;
+  private rows: Record<string, unknown>[] | null = null;
+  private returning = false;
+  private orders: string[] = [];
+  private maxRows: number | null = null;
+  private expect: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private pool: pg.Pool, private table: string) {}
+
+  select(columns = "*") {
+    this.columns = columns;
+    this.returning = true;
+    return this;
+  }
+
+  insert(rows: Record<string, unknown> | Record<string, unknown>[]) {
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  update(changes: Record<string, unknown>) {
+    this.changes = changes;
+    return this;
+  }
+
+  private where(column: string, operator: string, value: unknown) {
+    this.values.push(value);
+    this.filters.push(operator === "IN"
+      ? `${column} = ANY($${this.values.length})`
+      : `${column} ${operator} $${this.values.length}`);
+    return this;
+  }
+
+  eq = (column: string, value: unknown) => this.where(column, "=", value);
+  neq = (column: string, value: unknown) => this.where(column, "<>", value);
+  lt = (column: string, value: unknown) => this.where(column, "<", value);
+  lte = (column: string, value: unknown) => this.where(column, "<=", value);
+  gt = (column: string, value: unknown) => this.where(column, ">", value);
+  gte = (column: string, value: unknown) => this.where(column, ">=", value);
+  in = (column: string, values: unknown[]) => this.where(column, "IN", values);
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(`${column} IS ${value === null ? "NULL" : String(value).toUpperCase()}`);
+    return this;
+  }
+
+  order(column: string, { ascending = true } = {}) {
+    this.orders.push(`${column} ${ascending ? "ASC" : "DESC"}`);
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.expect = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.expect = "maybeSingle";
+    return this;
+  }
+
+  private sql(): string {
+    const where = this.filters.length ? ` WHERE ${this.filters.join(" AND ")}` : "";
+    const returning = this.returning ? ` RETURNING ${this.columns}` : "";
+
+    if (this.rows) {
+      const columns = Object.keys(this.rows[0]);
+      const tuples = this.rows.map((row) => {
+        const placeholders = columns.map((column) => {
+          this.values.push(row[column]);
+          return `$${this.values.length}`;
+        });
+        return `(${placeholders.join(", ")})`;
+      });
+      return `INSERT INTO ${this.table} (${columns.join(", ")}) VALUES ${tuples.join(", ")}${returning}`;
+    }
+
+    if (this.changes) {
+      const offset = this.values.length;
+      const assignments = Object.keys(this.changes).map((column, i) => `${column} = $${offset + i + 1}`);
+      this.values.push(...Object.values(this.changes));
+      return `UPDATE ${this.table} SET ${assignments.join(", ")}${where}${returning}`;
+    }
+
+    const order = this.orders.length ? ` ORDER BY ${this.orders.join(", ")}` : "";
+    const limit = this.maxRows === null ? "" : ` LIMIT ${this.maxRows}`;
+    return `SELECT ${this.columns} FROM ${this.table}${where}${order}${limit}`;
+  }
+
+  private async execute(): Promise<Result> {
+    const { rows, error } = await run(this.pool, this.sql(), this.values);
+    if (error) return { data: null, error };
+
+    if (this.expect === "many") return { data: rows, error: null };
+    if (rows.length > 1 || (rows.length === 0 && this.expect === "single")) {
+      return { data: null, error: { message: `${rows.length} rows returned`, code: "PGRST116" } };
+    }
+    return { data: rows[0] ?? null, error: null };
+  }
+
+  then<T1 = Result, T2 = never>(
+    onFulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return this.execute().then(onFulfilled, onRejected);
+  }
+}
+
+export function createPgSupabase(pool: pg.Pool): Client {
+  return {
+    from: (table: string) => new Query(pool, table),
+
+    // Set-returning functions give rows, the others their value
+    async rpc(fn: string, params: Record<string, unknown> = {}): Promise<Result> {
+      const names = Object.keys(params);
+      const args = names.map((name, i) => `${name} => $${i + 1}`).join(", ");
+      const { rows: returns } = await run(
+        pool,
+        "SELECT bool_or(proretset) AS set FROM pg_proc WHERE proname = $1 AND pronamespace = 'public'::regnamespace",
+        [fn]
+      );
+
+      const { rows, error } = await run(pool, `SELECT * FROM ${fn}(${args})`, Object.values(params));
+      if (error) return { data: null, error };
+      return { data: returns[0]?.set ? rows : Object.values(rows[0] ?? {})[0] ?? null, error: null };
+    }
+  } as unknown as Client;
+}
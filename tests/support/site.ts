@@ -0,0 +1,63 @@
+/**
+ * The site served by `astro dev`, calling the given Supabase URL
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import { createServer } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+
+export const BASE_PATH = "/lajardinerie_website";
+
+export interface Site {
+  url: string; // with the base path
+  stop: () => Promise<void>;
+}
+
+const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+const stopProcess = (child: ChildProcess) =>
+  new Promise<void>((resolve) => {
+    if (child.exitCode !== null || child.signalCode !== null) return resolve();
+    child.once("exit", () => resolve());
+    child.kill("SIGTERM");
+  });
+
+export async function startSite(supabaseUrl: string, timeoutMs = 90_000): Promise<Site> {
+  const port = await freePort();
+  const child = spawn("node_modules/.bin/astro", ["dev", "--host", "127.0.0.1", "--port", String(port)], {
+    env: {
+      ...process.env,
+      PUBLIC_SUPABASE_URL: supabaseUrl,
+      PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+      ASTRO_TELEMETRY_DISABLED: "1"
+    },
+    stdio: ["ignore", "pipe", "pipe"]
+  });
+  let output = "";
+  child.stdout?.on("data", (chunk) => (output += chunk));
+  child.stderr?.on("data", (chunk) => (output += chunk));
+
+  const url = `http://127.0.0.1:${port}${BASE_PATH}`;
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) break;
+    try {
+      if ((await fetch(`${url}/`)).ok) return { url, stop: () => stopProcess(child) };
+    } catch {
+      // Not listening yet
+    }
+    await sleep(500);
+  }
+
+  await stopProcess(child);
+  throw new Error(`astro dev did not start:\n${output}`);
+}
@@ -0,0 +1,68 @@
+/**
+ * Supabase client stub for handler tests
+ *
+ * Tables are arrays of rows filtered in memory (eq, in, lte, gte); `rpc()`
+ * answers from the functions given. Updates and RPC calls are recorded, for
+ * the test to check what the handler asked for.
+ */
+
+import type { HandlerContext } from "../../supabase/functions/_shared/handler-context.ts";
+
+type Row = Record<string, any>;
+
+export interface StubSupabase {
+  client: HandlerContext["supabase"];
+  rpcCalls: { fn: string; params: Row }[];
+  updates: { table: string; changes: Row; rows: Row[] }[];
+}
+
+export function createStubSupabase(
+  tables: Record<string, Row[]>,
+  functions: Record<string, (params: Row) => unknown>
+): StubSupabase {
+  const rpcCalls: StubSupabase["rpcCalls"] = [];
+  const updates: StubSupabase["updates"] = [];
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let changes: Row | null = null;
+    let expect: "many" | "single" | "maybeSingle" = "many";
+
+    const execute = async () => {
+      const rows = (tables[table] ?? []).filter((row) => filters.every((filter) => filter(row)));
+      if (changes) {
+        rows.forEach((row) => Object.assign(row, changes));
+        updates.push({ table, changes, rows });
+      }
+      if (expect === "many") return { data: rows, error: null };
+      if (rows.length > 1 || (rows.length === 0 && expect === "single")) {
+        return { data: null, error: { message: `${rows.length} rows returned`, code: "PGRST116" } };
+      }
+      return { data: rows[0] ?? null, error: null };
+    };
+
+    const query = {
+      select: () => query,
+      update: (values: Row) => ((changes = values), query),
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), query),
+      in: (column: string, values: unknown[]) => (filters.push((row) => values.includes(row[column])), query),
+      lte: (column: string, value: any) => (filters.push((row) => row[column] <= value), query),
+      gte: (column: string, value: any) => (filters.push((row) => row[column] >= value), query),
+      single: () => ((expect = "single"), query),
+      maybeSingle: () => ((expect = "maybeSingle"), query),
+      then: (onFulfilled: any, onRejected: any) => execute().then(onFulfilled, onRejected)
+    };
+    return query;
+  };
+
+  const client = {
+    from,
+    async rpc(fn: string, params: Row = {}) {
+      rpcCalls.push({ fn, params });
+      if (!functions[fn]) return { data: null, error: { message: `function ${fn} does not exist` } };
+      return { data: functions[fn](params), error: null };
+    }
+  } as unknown as HandlerContext["supabase"];
+
+  return { client, rpcCalls, updates };
+}
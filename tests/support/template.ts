@@ -0,0 +1,11 @@
+/**
+ * Template database the test files clone (global-setup.ts, database.ts)
+ */
+
+export const TEMPLATE_DATABASE = "lajardinerie_test";
+
+export function withDatabase(url: string, database: string): string {
+  const parsed = new URL(url);
+  parsed.pathname = `/${database}`;
+  return parsed.toString();
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  getReservableDateOptions,
+  getServiceSlots,
+  getServiceWindowRows,
+  isReservableDate
+} from "../../src/lib/opening-hours";
+import { DEFAULT_TIMEZONE, getZonedTime } from "../../supabase/functions/_shared/timezone.ts";
+
+const times = (slots: Date[]) => slots.map((slot) => getZonedTime(slot, DEFAULT_TIMEZONE));
+
+describe("getServiceSlots", () => {
+  it("lists every interval from the start of each service to its last reservation time", () => {
+    // Friday: lunch and dinner
+    const services = getServiceSlots("2027-01-15", DEFAULT_TIMEZONE);
+
+    expect(services.map(({ service }) => service.name)).toEqual(["midi", "soir"]);
+    expect(times(services[0].slots)).toEqual(["12:00", "12:30", "13:00", "13:30"]);
+    expect(times(services[1].slots)).toEqual(["19:00", "19:30", "20:00", "20:30", "21:00", "21:30"]);
+  });
+
+  it("places slots at the restaurant's wall-clock time in winter and summer", () => {
+    const [winter] = getServiceSlots("2027-01-15", DEFAULT_TIMEZONE);
+    const [summer] = getServiceSlots("2027-07-16", DEFAULT_TIMEZONE);
+
+    expect(winter.slots[0].toISOString()).toBe("2027-01-15T11:00:00.000Z");
+    expect(summer.slots[0].toISOString()).toBe("2027-07-16T10:00:00.000Z");
+  });
+
+  it("follows the timezone it is given", () => {
+    const [lunch] = getServiceSlots("2027-01-15", "America/New_York");
+
+    expect(lunch.slots[0].toISOString()).toBe("2027-01-15T17:00:00.000Z");
+  });
+
+  it("returns only the services of the day", () => {
+    // Tuesday: dinner only; Monday and Sunday: closed
+    expect(getServiceSlots("2027-01-12", DEFAULT_TIMEZONE).map(({ service }) => service.name)).toEqual(["soir"]);
+    expect(getServiceSlots("2027-01-11", DEFAULT_TIMEZONE)).toEqual([]);
+    expect(getServiceSlots("2027-01-17", DEFAULT_TIMEZONE)).toEqual([]);
+  });
+});
+
+describe("isReservableDate", () => {
+  it("is true on the days with a service", () => {
+    expect(["2027-01-11", "2027-01-12", "2027-01-16", "2027-01-17"].map(isReservableDate)).toEqual([
+      false,
+      true,
+      true,
+      false
+    ]);
+  });
+});
+
+describe("getReservableDateOptions", () => {
+  it("keeps the days with a service, with a French label", () => {
+    const options = getReservableDateOptions(14, DEFAULT_TIMEZONE);
+
+    // Tuesday to Saturday: 5 days a week
+    expect(options).toHaveLength(10);
+    expect(options.every(({ value }) => isReservableDate(value))).toBe(true);
+    expect(options[0].label).toMatch(/^(Mardi|Mercredi|Jeudi|Vendredi|Samedi) \d+ \p{L}+$/u);
+  });
+});
+
+describe("getServiceWindowRows", () => {
+  it("expands the services to one row per day, like service_windows", () => {
+    const rows = getServiceWindowRows();
+
+    expect(rows).toHaveLength(8);
+    expect(rows.filter((row) => row.name === "midi").map((row) => row.dow)).toEqual([3, 4, 5]);
+    expect(rows.filter((row) => row.name === "soir").map((row) => row.dow)).toEqual([2, 3, 4, 5, 6]);
+  });
+});
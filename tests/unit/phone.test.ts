@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { formatPhone, normalizePhone } from "../../supabase/functions/_shared/phone.ts";
+
+describe("normalizePhone", () => {
+  it("reads numbers without a country code as French", () => {
+    expect(normalizePhone("06 12 34 56 78")).toBe("+33612345678");
+    expect(normalizePhone("04.68.00.00.00")).toBe("+33468000000");
+  });
+
+  it("accepts the usual ways of writing a country code", () => {
+    expect(normalizePhone("+33 6 12 34 56 78")).toBe("+33612345678");
+    expect(normalizePhone("0033 6 12 34 56 78")).toBe("+33612345678");
+    expect(normalizePhone("+33 (0)6 12 34 56 78")).toBe("+33612345678");
+    expect(normalizePhone("+34 612 345 678")).toBe("+34612345678");
+    expect(normalizePhone("+376 812 345")).toBe("+376812345");
+  });
+
+  it("checks the length of the countries it knows, and E.164 for the others", () => {
+    expect(normalizePhone("06 12 34 56")).toBeNull();
+    expect(normalizePhone("+34 612 345")).toBeNull();
+    expect(normalizePhone("+81 90 1234 5678")).toBe("+819012345678");
+    expect(normalizePhone("+81 90")).toBeNull();
+  });
+
+  it("reads national numbers in the region it is given", () => {
+    expect(normalizePhone("612 345 678", "ES")).toBe("+34612345678");
+    expect(normalizePhone("612 345 678")).toBeNull();
+  });
+
+  it("rejects anything but digits", () => {
+    expect(normalizePhone("06 12 34 56 7a")).toBeNull();
+    expect(normalizePhone("")).toBeNull();
+  });
+});
+
+describe("formatPhone", () => {
+  it("writes French numbers the national way and leaves the others", () => {
+    expect(formatPhone("+33612345678")).toBe("06 12 34 56 78");
+    expect(formatPhone("+34612345678")).toBe("+34612345678");
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The module creates its client on import, which needs a URL and a key
+vi.stubEnv("PUBLIC_SUPABASE_URL", "http://127.0.0.1:54321");
+vi.stubEnv("PUBLIC_SUPABASE_ANON_KEY", "anon-key");
+const { formatDate, formatTime, getDateOptions, isClosedDay } = await import("../../src/lib/supabase");
+
+describe("getDateOptions", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts on the restaurant's date, whatever the UTC date", () => {
+    // 23:30 UTC on 14 Jan 2027 is already 15 Jan in Paris
+    vi.setSystemTime(new Date("2027-01-14T23:30:00Z"));
+
+    const options = getDateOptions(3);
+
+    expect(options.map(({ value }) => value)).toEqual(["2027-01-15", "2027-01-16", "2027-01-17"]);
+    expect(options[0].label).toBe("Vendredi 15 janvier");
+  });
+
+  it("counts the days in the timezone it is given", () => {
+    vi.setSystemTime(new Date("2027-01-14T23:30:00Z"));
+
+    expect(getDateOptions(1, "America/New_York")[0].value).toBe("2027-01-14");
+  });
+});
+
+describe("isClosedDay", () => {
+  it("is true on the days without any service", () => {
+    // Monday and Sunday
+    expect(isClosedDay("2027-01-11")).toBe(true);
+    expect(isClosedDay("2027-01-17")).toBe(true);
+    expect(isClosedDay("2027-01-12")).toBe(false);
+  });
+});
+
+describe("formatDate", () => {
+  it("shows the calendar date in any browser timezone", () => {
+    expect(formatDate("2027-01-15")).toBe("vendredi 15 janvier");
+  });
+});
+
+describe("formatTime", () => {
+  it("shows the restaurant's wall-clock time", () => {
+    expect(formatTime("2027-01-15T18:00:00Z")).toBe("19:00");
+    expect(formatTime("2027-07-16T18:00:00Z")).toBe("20:00");
+  });
+
+  it("follows the timezone it is given", () => {
+    expect(formatTime("2027-01-15T18:00:00Z", "Europe/London")).toBe("18:00");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  getDayOfWeek,
+  getTimezoneOffset,
+  getZonedDate,
+  getZonedDayRange,
+  getZonedTime,
+  zonedTimeToUtc
+} from "../../supabase/functions/_shared/timezone.ts";
+
+const PARIS = "Europe/Paris";
+
+// 2026-03-29: 02:00 CET becomes 03:00 CEST (01:00 UTC)
+// 2026-10-25: 03:00 CEST becomes 02:00 CET (01:00 UTC), 02:00-02:59 happens twice
+const SPRING = "2026-03-29";
+const AUTUMN = "2026-10-25";
+
+const iso = (date: Date) => date.toISOString();
+
+describe("getTimezoneOffset", () => {
+  it("changes at 01:00 UTC on the DST Sundays", () => {
+    expect(getTimezoneOffset(new Date("2026-03-29T00:59:00Z"), PARIS)).toBe(60);
+    expect(getTimezoneOffset(new Date("2026-03-29T01:00:00Z"), PARIS)).toBe(120);
+    expect(getTimezoneOffset(new Date("2026-10-25T00:59:00Z"), PARIS)).toBe(120);
+    expect(getTimezoneOffset(new Date("2026-10-25T01:00:00Z"), PARIS)).toBe(60);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("uses the offset in force on each side of the spring change", () => {
+    expect(iso(zonedTimeToUtc(SPRING, "01:30", PARIS))).toBe("2026-03-29T00:30:00.000Z");
+    expect(iso(zonedTimeToUtc(SPRING, "03:00", PARIS))).toBe("2026-03-29T01:00:00.000Z");
+    expect(iso(zonedTimeToUtc(SPRING, "19:00", PARIS))).toBe("2026-03-29T17:00:00.000Z");
+  });
+
+  it("moves a time skipped in spring to the hour after it", () => {
+    expect(iso(zonedTimeToUtc(SPRING, "02:00", PARIS))).toBe(iso(zonedTimeToUtc(SPRING, "03:00", PARIS)));
+    expect(iso(zonedTimeToUtc(SPRING, "02:30", PARIS))).toBe("2026-03-29T01:30:00.000Z");
+    expect(getZonedTime(zonedTimeToUtc(SPRING, "02:30", PARIS), PARIS)).toBe("03:30");
+  });
+
+  it("takes the second occurrence of a time repeated in autumn", () => {
+    expect(iso(zonedTimeToUtc(AUTUMN, "01:30", PARIS))).toBe("2026-10-24T23:30:00.000Z");
+    expect(iso(zonedTimeToUtc(AUTUMN, "02:00", PARIS))).toBe("2026-10-25T01:00:00.000Z");
+    expect(iso(zonedTimeToUtc(AUTUMN, "02:30", PARIS))).toBe("2026-10-25T01:30:00.000Z");
+    expect(iso(zonedTimeToUtc(AUTUMN, "03:00", PARIS))).toBe("2026-10-25T02:00:00.000Z");
+    expect(iso(zonedTimeToUtc(AUTUMN, "19:00", PARIS))).toBe("2026-10-25T18:00:00.000Z");
+  });
+});
+
+describe("getZonedTime", () => {
+  it("reads both occurrences of the repeated hour as the same wall-clock time", () => {
+    expect(getZonedTime(new Date("2026-10-25T00:30:00Z"), PARIS)).toBe("02:30");
+    expect(getZonedTime(new Date("2026-10-25T01:30:00Z"), PARIS)).toBe("02:30");
+  });
+});
+
+describe("getZonedDate", () => {
+  it("switches to the restaurant's next day at its own midnight", () => {
+    expect(getZonedDate(new Date("2026-03-28T22:59:00Z"), PARIS)).toBe("2026-03-28");
+    expect(getZonedDate(new Date("2026-03-28T23:00:00Z"), PARIS)).toBe(SPRING);
+    expect(getZonedDate(new Date("2026-10-24T21:59:00Z"), PARIS)).toBe("2026-10-24");
+    expect(getZonedDate(new Date("2026-10-24T22:00:00Z"), PARIS)).toBe(AUTUMN);
+  });
+});
+
+describe("getZonedDayRange", () => {
+  it("is 23 hours long in spring and 25 in autumn", () => {
+    const hours = ({ start, end }: { start: Date; end: Date }) => (end.getTime() - start.getTime()) / 3_600_000;
+
+    expect(iso(getZonedDayRange(SPRING, PARIS).start)).toBe("2026-03-28T23:00:00.000Z");
+    expect(hours(getZonedDayRange(SPRING, PARIS))).toBe(23);
+    expect(iso(getZonedDayRange(AUTUMN, PARIS).start)).toBe("2026-10-24T22:00:00.000Z");
+    expect(hours(getZonedDayRange(AUTUMN, PARIS))).toBe(25);
+    expect(hours(getZonedDayRange("2026-06-14", PARIS))).toBe(24);
+  });
+});
+
+describe("addDays and getDayOfWeek", () => {
+  it("count calendar days, whatever the length of the day", () => {
+    expect(addDays("2026-03-28", 1)).toBe(SPRING);
+    expect(addDays(AUTUMN, 1)).toBe("2026-10-26");
+    expect(getDayOfWeek(SPRING)).toBe(0);
+    expect(getDayOfWeek(AUTUMN)).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAX_GROUP_SIZE, parseMaxGroupSize } from "../../supabase/functions/_shared/group-size.ts";
+import {
+  MIN_FILL_TIME_MS,
+  checkFormTiming,
+  checkOrigin,
+  getClientIp
+} from "../../supabase/functions/_shared/protection.ts";
+import { validateRequirements } from "../../supabase/functions/_shared/requirements.ts";
+
+const request = (headers: Record<string, string>) => new Request("http://localhost/book", { headers });
+
+describe("validateRequirements", () => {
+  it("accepts no requirements and known keys", () => {
+    expect(validateRequirements({}, 2)).toBeNull();
+    expect(
+      validateRequirements(
+        {
+          allergens: ["gluten", "fruits_a_coque"],
+          diets: ["vegan"],
+          high_chairs: 2,
+          wheelchair: true,
+          occasion: "anniversaire",
+          seating_preference: "terrasse"
+        },
+        4
+      )
+    ).toBeNull();
+  });
+
+  it("rejects unknown keys", () => {
+    expect(validateRequirements({ allergens: ["noix" as never] }, 2)).toBe("Allergène inconnu");
+    expect(validateRequirements({ diets: ["keto" as never] }, 2)).toBe("Régime alimentaire inconnu");
+    expect(validateRequirements({ occasion: "mariage" as never }, 2)).toBe("Occasion inconnue");
+    expect(validateRequirements({ seating_preference: "bar" as never }, 2)).toBe("Préférence de placement inconnue");
+  });
+
+  it("rejects lists sent as something else", () => {
+    expect(validateRequirements({ allergens: "gluten" as never }, 2)).toBe("Allergène inconnu");
+    expect(validateRequirements({ wheelchair: "oui" as never }, 2)).toBe("Accès fauteuil roulant invalide");
+  });
+
+  it("allows up to one high chair per guest", () => {
+    expect(validateRequirements({ high_chairs: 3 }, 3)).toBeNull();
+    expect(validateRequirements({ high_chairs: 4 }, 3)).toBe("Nombre de chaises hautes invalide");
+    expect(validateRequirements({ high_chairs: -1 }, 3)).toBe("Nombre de chaises hautes invalide");
+    expect(validateRequirements({ high_chairs: 1.5 }, 3)).toBe("Nombre de chaises hautes invalide");
+  });
+});
+
+describe("checkOrigin", () => {
+  const allowed = ["https://wuilhome.github.io"];
+
+  it("lets every origin through while allowed_origins is empty", () => {
+    expect(checkOrigin(request({ Origin: "https://example.com" }), [])).toBeNull();
+    expect(checkOrigin(request({}), null)).toBeNull();
+  });
+
+  it("rejects origins missing from the list, and requests without one", () => {
+    expect(checkOrigin(request({ Origin: "https://wuilhome.github.io" }), allowed)).toBeNull();
+    expect(checkOrigin(request({ Origin: "https://example.com" }), allowed)?.error_code).toBe("origin_not_allowed");
+    expect(checkOrigin(request({}), allowed)?.status).toBe(403);
+  });
+});
+
+describe("checkFormTiming", () => {
+  it("rejects a filled honeypot", () => {
+    expect(checkFormTiming({ website: "https://spam.example", fill_time_ms: 10_000 })?.error_code).toBe("spam_detected");
+  });
+
+  it("rejects forms sent faster than a person fills them in", () => {
+    expect(checkFormTiming({ fill_time_ms: MIN_FILL_TIME_MS - 1 })?.error_code).toBe("too_fast");
+    expect(checkFormTiming({})?.error_code).toBe("too_fast");
+    expect(checkFormTiming({ website: "", fill_time_ms: MIN_FILL_TIME_MS })).toBeNull();
+  });
+});
+
+describe("getClientIp", () => {
+  it("takes the hop appended by the proxy, not the ones the client sent", () => {
+    expect(getClientIp(request({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7" }))).toBe("203.0.113.7");
+    expect(getClientIp(request({ "X-Forwarded-For": "203.0.113.7" }))).toBe("203.0.113.7");
+    expect(getClientIp(request({}))).toBe("unknown");
+  });
+});
+
+describe("parseMaxGroupSize", () => {
+  it("reads the setting, or falls back to the default", () => {
+    expect(parseMaxGroupSize(8)).toBe(8);
+    expect(parseMaxGroupSize("10")).toBe(10);
+    expect(parseMaxGroupSize(undefined)).toBe(DEFAULT_MAX_GROUP_SIZE);
+    expect(parseMaxGroupSize(0)).toBe(DEFAULT_MAX_GROUP_SIZE);
+    expect(parseMaxGroupSize("douze")).toBe(DEFAULT_MAX_GROUP_SIZE);
+  });
+});
@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+// Tests: README, "Tests" (the browser run has its own config, vitest.e2e.config.ts)
+export default defineConfig({
+  test: {
+    include: ["tests/{unit,db,functions}/**/*.test.ts"],
+    globalSetup: ["tests/support/global-setup.ts"],
+    // One file at a time: the database tests share one Postgres server
+    fileParallelism: false,
+    testTimeout: 30_000,
+    hookTimeout: 120_000
+  }
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// End-to-end run of the site in Chrome (npm run test:e2e, README "Tests")
+export default defineConfig({
+  test: {
+    include: ["tests/e2e/**/*.test.ts"],
+    globalSetup: ["tests/support/global-setup.ts"],
+    fileParallelism: false,
+    testTimeout: 60_000,
+    hookTimeout: 180_000
+  }
+});